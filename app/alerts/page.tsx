@@ -0,0 +1,288 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AlertCondition, describeCondition } from '@/lib/alert-conditions';
+import type { MonitorSummary } from '@/lib/monitor';
+import type { AlertDelivery, AlertRule } from '@/lib/monitor-store';
+
+const CONDITION_OPTIONS: Array<{ value: AlertCondition['type']; label: string }> = [
+  { value: 'invalid', label: 'Feed becomes invalid' },
+  { value: 'stale', label: 'No new item in N days' },
+  { value: 'featured-image-lost', label: 'Featured images disappear' },
+  { value: 'duplicate-guids', label: 'Duplicate GUIDs appear' },
+  { value: 'field-missing', label: 'A field goes missing' },
+];
+
+export default function AlertsPage() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [monitors, setMonitors] = useState<MonitorSummary[]>([]);
+  const [name, setName] = useState('');
+  const [conditionType, setConditionType] = useState<AlertCondition['type']>('invalid');
+  const [days, setDays] = useState(7);
+  const [field, setField] = useState('media:content');
+  const [monitorId, setMonitorId] = useState('');
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAlerts = useCallback(async () => {
+    const [alertsResponse, monitorsResponse] = await Promise.all([fetch('/api/alerts'), fetch('/api/monitors')]);
+    const alertsData = await alertsResponse.json();
+    if (alertsResponse.ok) {
+      setRules(alertsData.rules);
+      setDeliveries(alertsData.deliveries);
+    } else {
+      setError(alertsData.error || 'An unexpected error occurred');
+    }
+    if (monitorsResponse.ok) {
+      const data = await monitorsResponse.json();
+      setMonitors(data.monitors);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const condition: AlertCondition =
+      conditionType === 'stale'
+        ? { type: 'stale', days }
+        : conditionType === 'field-missing'
+          ? { type: 'field-missing', field }
+          : { type: conditionType };
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/alerts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, condition, monitorId: monitorId || null, webhookUrl }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'An unexpected error occurred');
+        return;
+      }
+      setName('');
+      await loadAlerts();
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleTest = async (rule: AlertRule) => {
+    await fetch(`/api/alerts/${rule.id}/test`, { method: 'POST' });
+    await loadAlerts();
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    await fetch(`/api/alerts/${rule.id}`, { method: 'DELETE' });
+    await loadAlerts();
+  };
+
+  const feedName = (id: string | null) => {
+    if (!id) return 'All monitored feeds';
+    const summary = monitors.find((candidate) => candidate.monitor.id === id);
+    return summary ? summary.latest?.title || summary.monitor.url : 'Removed feed';
+  };
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container mx-auto px-6 py-16 max-w-6xl">
+        <div className="mb-10">
+          <Link href="/monitors" className="text-sm text-primary-600 hover:text-primary-700">
+            ← Monitored feeds
+          </Link>
+          <h1 className="text-4xl font-light text-gray-900 mt-4 mb-3 tracking-tight">
+            Alert Rules
+          </h1>
+          <p className="text-gray-500 text-lg font-light">
+            Get a webhook call when a monitored feed regresses
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl p-8 mb-10 border border-gray-100 space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="rule-name" className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide">
+                Name
+              </label>
+              <input
+                id="rule-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Partner feed lost images"
+                className="w-full px-4 py-3 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none text-gray-900 placeholder-gray-400"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="rule-feed" className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide">
+                Feed
+              </label>
+              <select
+                id="rule-feed"
+                value={monitorId}
+                onChange={(e) => setMonitorId(e.target.value)}
+                className="w-full px-4 py-3 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-gray-900"
+              >
+                <option value="">All monitored feeds</option>
+                {monitors.map(({ monitor, latest }) => (
+                  <option key={monitor.id} value={monitor.id}>
+                    {latest?.title || monitor.url}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="rule-condition" className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide">
+                When
+              </label>
+              <div className="flex gap-2">
+                <select
+                  id="rule-condition"
+                  value={conditionType}
+                  onChange={(e) => setConditionType(e.target.value as AlertCondition['type'])}
+                  className="flex-1 px-4 py-3 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-gray-900"
+                >
+                  {CONDITION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {conditionType === 'stale' && (
+                  <input
+                    type="number"
+                    min={1}
+                    value={days}
+                    onChange={(e) => setDays(Number(e.target.value))}
+                    aria-label="Days"
+                    className="w-24 px-4 py-3 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-gray-900"
+                  />
+                )}
+                {conditionType === 'field-missing' && (
+                  <input
+                    value={field}
+                    onChange={(e) => setField(e.target.value)}
+                    aria-label="Field"
+                    className="w-40 px-4 py-3 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-gray-900 font-mono text-sm"
+                  />
+                )}
+              </div>
+            </div>
+            <div>
+              <label htmlFor="rule-webhook" className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide">
+                Webhook URL
+              </label>
+              <input
+                id="rule-webhook"
+                type="url"
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+                placeholder="https://hooks.example.com/feed-alerts"
+                className="w-full px-4 py-3 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none text-gray-900 placeholder-gray-400"
+                required
+              />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={loading || !name.trim() || !webhookUrl.trim()}
+            className="w-full bg-primary-500 text-white font-medium py-3.5 px-6 rounded-lg hover:bg-primary-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Saving…' : 'Add Rule'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 text-red-700 rounded-xl p-4 mb-8 text-sm">{error}</div>
+        )}
+
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide mb-3">Rules</h3>
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-10">No alert rules yet.</p>
+        ) : (
+          <ul className="space-y-3 mb-10">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex items-center justify-between gap-4 bg-gray-50 rounded-lg px-4 py-3">
+                <div className="min-w-0">
+                  <div className="text-gray-900">
+                    {rule.name}
+                    {rule.matchingFeeds.length > 0 && (
+                      <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-red-50 text-red-700">
+                        Firing for {rule.matchingFeeds.length}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {describeCondition(rule.condition)} · {feedName(rule.monitorId)} ·{' '}
+                    <span className="font-mono">{rule.webhookUrl}</span>
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleTest(rule)}
+                    className="bg-white border border-gray-200 text-gray-700 text-sm font-medium py-2 px-3 rounded-lg hover:bg-gray-100 transition-colors"
+                  >
+                    Send Test
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(rule)}
+                    className="bg-white border border-gray-200 text-red-600 text-sm font-medium py-2 px-3 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide mb-3">Recent Deliveries</h3>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500">No alerts have been sent yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Sent</th>
+                  <th className="py-2 pr-4 font-medium">Alert</th>
+                  <th className="py-2 pr-4 font-medium">Delivery</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id} className="border-b border-gray-100 align-top">
+                    <td className="py-3 pr-4 text-gray-700 whitespace-nowrap">{new Date(delivery.sentAt).toLocaleString()}</td>
+                    <td className="py-3 pr-4 text-gray-900">{delivery.message}</td>
+                    <td className="py-3 pr-4 text-xs">
+                      {delivery.error ? (
+                        <span className="text-red-600">{delivery.error}</span>
+                      ) : (
+                        <span className="text-success-700">HTTP {delivery.status}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
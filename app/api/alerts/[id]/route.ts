@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { isMonitorStoreConfigured, MONITOR_STORE_UNAVAILABLE, removeAlertRule } from '@/lib/monitor-store';
+
+export const runtime = 'nodejs';
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  if (!isMonitorStoreConfigured()) {
+    return NextResponse.json(
+      { error: MONITOR_STORE_UNAVAILABLE },
+      { status: 503 }
+    );
+  }
+  if (!(await removeAlertRule(params.id))) {
+    return NextResponse.json(
+      { error: 'Alert rule not found' },
+      { status: 404 }
+    );
+  }
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { sendTestAlert } from '@/lib/alerts';
+import { getAlertRule, isMonitorStoreConfigured, MONITOR_STORE_UNAVAILABLE } from '@/lib/monitor-store';
+
+export const runtime = 'nodejs';
+
+/**
+ * Sends a sample payload to the rule's webhook and reports how the delivery went
+ */
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  if (!isMonitorStoreConfigured()) {
+    return NextResponse.json(
+      { error: MONITOR_STORE_UNAVAILABLE },
+      { status: 503 }
+    );
+  }
+  const rule = await getAlertRule(params.id);
+  if (!rule) {
+    return NextResponse.json(
+      { error: 'Alert rule not found' },
+      { status: 404 }
+    );
+  }
+
+  const delivery = await sendTestAlert(rule);
+  return NextResponse.json({ delivery });
+}
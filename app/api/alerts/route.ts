@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAlertCondition } from '@/lib/alert-conditions';
+import {
+  addAlertRule,
+  getMonitor,
+  isMonitorStoreConfigured,
+  listAlertDeliveries,
+  listAlertRules,
+  MONITOR_STORE_UNAVAILABLE,
+} from '@/lib/monitor-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Lists alert rules and the most recent webhook deliveries
+ */
+export async function GET() {
+  if (!isMonitorStoreConfigured()) {
+    return NextResponse.json(
+      { error: MONITOR_STORE_UNAVAILABLE },
+      { status: 503 }
+    );
+  }
+  const [rules, deliveries] = await Promise.all([listAlertRules(), listAlertDeliveries()]);
+  return NextResponse.json({ rules, deliveries });
+}
+
+/**
+ * Creates an alert rule for one monitored feed, or for all of them when monitorId is omitted
+ */
+export async function POST(request: NextRequest) {
+  if (!isMonitorStoreConfigured()) {
+    return NextResponse.json(
+      { error: MONITOR_STORE_UNAVAILABLE },
+      { status: 503 }
+    );
+  }
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return NextResponse.json(
+      { error: 'Give the rule a name' },
+      { status: 400 }
+    );
+  }
+
+  const condition = parseAlertCondition(body.condition);
+  if (!condition) {
+    return NextResponse.json(
+      { error: 'Invalid alert condition' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const webhookUrl = new URL(body.webhookUrl);
+    if (webhookUrl.protocol !== 'http:' && webhookUrl.protocol !== 'https:') throw new Error();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid webhook URL' },
+      { status: 400 }
+    );
+  }
+
+  const monitorId = typeof body.monitorId === 'string' && body.monitorId ? body.monitorId : null;
+  if (monitorId && !(await getMonitor(monitorId))) {
+    return NextResponse.json(
+      { error: 'Monitor not found' },
+      { status: 404 }
+    );
+  }
+
+  const rule = await addAlertRule({ name, monitorId, condition, webhookUrl: body.webhookUrl });
+  return NextResponse.json({ rule }, { status: 201 });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeFeedUrl, failedAnalysis, FeedAnalysis } from '@/lib/analyze';
+import { BATCH_CONCURRENCY, BatchEvent, MAX_BATCH_URLS, summarizeAnalysis } from '@/lib/batch';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { AnalysisError } from '@/lib/errors';
+import { OpmlOutline, parseOpml } from '@/lib/opml';
+
+// Configure runtime and timeout for Vercel
+export const runtime = 'nodejs';
+export const maxDuration = 300; // A full batch needs far longer than a single feed
+
+/**
+ * Analyzes a list of URLs or the feeds in an OPML document.
+ * Results stream back as newline-delimited JSON as each feed completes.
+ */
+export async function POST(request: NextRequest) {
+  let urls: string[];
+  const outlines = new Map<string, OpmlOutline>();
+  try {
+    const { urls: submittedUrls, opml } = await request.json();
+
+    if (typeof opml === 'string' && opml.trim()) {
+      const parsed = parseOpml(opml);
+      for (const outline of parsed) {
+        if (!outlines.has(outline.xmlUrl)) outlines.set(outline.xmlUrl, outline);
+      }
+      urls = parsed.map((outline) => outline.xmlUrl);
+    } else if (Array.isArray(submittedUrls)) {
+      urls = submittedUrls.filter((url): url is string => typeof url === 'string').map((url) => url.trim());
+    } else {
+      return NextResponse.json(
+        { error: 'Provide a list of URLs or an OPML file' },
+        { status: 400 }
+      );
+    }
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  urls = Array.from(new Set(urls.filter(Boolean)));
+  if (urls.length === 0) {
+    return NextResponse.json(
+      { error: 'No feed URLs found' },
+      { status: 400 }
+    );
+  }
+  if (urls.length > MAX_BATCH_URLS) {
+    return NextResponse.json(
+      { error: `Too many feeds: ${urls.length} (the limit is ${MAX_BATCH_URLS} per batch)` },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: BatchEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+
+      send({ type: 'start', total: urls.length });
+      await mapWithConcurrency(urls, BATCH_CONCURRENCY, async (url, index) => {
+        let analysis: FeedAnalysis;
+        try {
+          new URL(url);
+          analysis = await analyzeFeedUrl(url);
+        } catch {
+          analysis = failedAnalysis(new AnalysisError('INVALID_URL', 'Invalid URL format', { url }));
+        }
+        send({ type: 'result', result: summarizeAnalysis(index, url, analysis, outlines.get(url)) });
+      });
+      send({ type: 'done' });
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
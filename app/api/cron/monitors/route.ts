@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueChecks } from '@/lib/monitor';
+import { isMonitorStoreConfigured, MONITOR_STORE_UNAVAILABLE } from '@/lib/monitor-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Re-checks every monitored feed that is due. Any scheduler can call it, including a Vercel
+ * Cron job the deployer adds. The request must carry CRON_SECRET as a bearer token, which is
+ * what Vercel Cron sends; without a configured secret the route refuses every request.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: 'Scheduled checks are disabled: set CRON_SECRET to enable this endpoint' },
+      { status: 503 }
+    );
+  }
+  if (!isMonitorStoreConfigured()) {
+    return NextResponse.json(
+      { error: MONITOR_STORE_UNAVAILABLE },
+      { status: 503 }
+    );
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const snapshots = await runDueChecks();
+  return NextResponse.json({
+    checked: snapshots.length,
+    valid: snapshots.filter((snapshot) => snapshot.isValid).length,
+  });
+}
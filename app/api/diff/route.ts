@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeFeedContent, analyzeFeedUrl } from '@/lib/analyze';
+import { ComparableFeed, diffFeeds, snapshotToComparableFeed, toComparableFeed } from '@/lib/feed-diff';
+import { getSnapshot, isMonitorStoreConfigured, MONITOR_STORE_UNAVAILABLE } from '@/lib/monitor-store';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60; // Up to two feed fetches
+
+/**
+ * Resolves one side of a comparison: a live URL, pasted content, or a stored monitor snapshot.
+ * Returns an error message instead when that side cannot be compared.
+ */
+async function resolveSource(source: any, side: string): Promise<ComparableFeed | string> {
+  if (!source || typeof source !== 'object') {
+    return `Provide the ${side} feed as a URL, pasted content or a stored snapshot`;
+  }
+
+  if (typeof source.monitorId === 'string' && typeof source.snapshotId === 'string') {
+    if (!isMonitorStoreConfigured()) return MONITOR_STORE_UNAVAILABLE;
+    const snapshot = await getSnapshot(source.monitorId, source.snapshotId);
+    if (!snapshot) return `The ${side} snapshot was not found`;
+    return snapshotToComparableFeed(snapshot) || `The ${side} snapshot is too old to still have item details`;
+  }
+
+  let analysis;
+  let label: string;
+  if (typeof source.content === 'string' && source.content.trim()) {
+    analysis = await analyzeFeedContent(source.content, typeof source.contentType === 'string' ? source.contentType : null);
+    label = 'Pasted content';
+  } else if (typeof source.url === 'string' && source.url.trim()) {
+    try {
+      new URL(source.url);
+    } catch {
+      return `The ${side} URL is not valid`;
+    }
+    analysis = await analyzeFeedUrl(source.url);
+    label = source.url;
+  } else {
+    return `Provide the ${side} feed as a URL, pasted content or a stored snapshot`;
+  }
+
+  if (!analysis.isValid) {
+    return `The ${side} feed could not be analyzed: ${analysis.error || 'invalid feed'}`;
+  }
+  return toComparableFeed(analysis, label);
+}
+
+/**
+ * Compares two versions of a feed: items added, removed and edited by GUID,
+ * and changes to the feed's available fields and type
+ */
+export async function POST(request: NextRequest) {
+  let before: unknown;
+  let after: unknown;
+  try {
+    ({ before, after } = await request.json());
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const [beforeFeed, afterFeed] = await Promise.all([resolveSource(before, 'earlier'), resolveSource(after, 'later')]);
+  if (typeof beforeFeed === 'string' || typeof afterFeed === 'string') {
+    return NextResponse.json(
+      { error: typeof beforeFeed === 'string' ? beforeFeed : afterFeed },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(diffFeeds(beforeFeed, afterFeed));
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeFeedContent, analyzeFeedUrl, ITEM_CUSTOM_FIELDS } from '@/lib/analyze';
+import { applyMapping, MappingSource, MAX_SAMPLE_ITEMS, parseFieldMapping } from '@/lib/field-mapping';
+
+export const runtime = 'nodejs';
+
+/**
+ * The fields a feed offers and their values on the first items, for building a field mapping.
+ * With a `mapping`, also returns the normalized records for the first `limit` items.
+ */
+export async function POST(request: NextRequest) {
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  const mapping = body?.mapping !== undefined ? parseFieldMapping(body.mapping) : undefined;
+  if (mapping === null) {
+    return NextResponse.json(
+      { error: 'Invalid field mapping' },
+      { status: 400 }
+    );
+  }
+  const limit = Math.min(Math.max(Math.floor(Number(body?.limit)) || MAX_SAMPLE_ITEMS, 1), MAX_SAMPLE_ITEMS);
+
+  const options = { sampleItems: MAX_SAMPLE_ITEMS };
+  let analysis;
+  if (typeof body?.content === 'string' && body.content.trim()) {
+    analysis = await analyzeFeedContent(body.content, typeof body.contentType === 'string' ? body.contentType : null, options);
+  } else if (typeof body?.url === 'string' && body.url.trim()) {
+    try {
+      new URL(body.url);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid URL format' },
+        { status: 400 }
+      );
+    }
+    analysis = await analyzeFeedUrl(body.url, options);
+  } else {
+    return NextResponse.json(
+      { error: 'Provide a feed URL or content' },
+      { status: 400 }
+    );
+  }
+
+  if (!analysis.isValid) {
+    return NextResponse.json(
+      { error: `The feed could not be analyzed: ${analysis.error || 'invalid feed'}` },
+      { status: 400 }
+    );
+  }
+
+  // Custom fields can be mapped before the feed starts using them
+  const fieldCoverage = analysis.fieldCoverage || [];
+  const sourceFields = Array.from(new Set([
+    ...fieldCoverage.map((coverage) => coverage.field),
+    ...ITEM_CUSTOM_FIELDS.map(([element]) => element),
+  ]));
+  const sourceItems = analysis.sourceItems || [];
+
+  const response: MappingSource = {
+    title: analysis.title || null,
+    finalUrl: analysis.fetchInfo?.finalUrl || null,
+    availableFields: analysis.availableFields,
+    fieldCoverage,
+    sourceFields,
+    sourceItems,
+    records: mapping ? sourceItems.slice(0, limit).map((values) => applyMapping(values, mapping)) : undefined,
+  };
+  return NextResponse.json(response);
+}
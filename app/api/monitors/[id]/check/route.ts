@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { checkMonitor, summarizeSnapshot } from '@/lib/monitor';
+import { getMonitor, isMonitorStoreConfigured, MONITOR_STORE_UNAVAILABLE } from '@/lib/monitor-store';
+
+export const runtime = 'nodejs';
+export const maxDuration = 30;
+
+/**
+ * Re-checks a monitored feed immediately instead of waiting for the schedule
+ */
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  if (!isMonitorStoreConfigured()) {
+    return NextResponse.json(
+      { error: MONITOR_STORE_UNAVAILABLE },
+      { status: 503 }
+    );
+  }
+  const monitor = await getMonitor(params.id);
+  if (!monitor) {
+    return NextResponse.json(
+      { error: 'Monitor not found' },
+      { status: 404 }
+    );
+  }
+
+  const snapshot = await checkMonitor(monitor);
+  return NextResponse.json({ snapshot: snapshot && summarizeSnapshot(snapshot) });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { buildHistory, computeMonitorStatus } from '@/lib/monitor';
+import { getHistory, getMonitor, isMonitorStoreConfigured, MONITOR_STORE_UNAVAILABLE, removeMonitor } from '@/lib/monitor-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * A monitored feed with its status and check history, newest first
+ */
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  if (!isMonitorStoreConfigured()) {
+    return NextResponse.json(
+      { error: MONITOR_STORE_UNAVAILABLE },
+      { status: 503 }
+    );
+  }
+  const monitor = await getMonitor(params.id);
+  if (!monitor) {
+    return NextResponse.json(
+      { error: 'Monitor not found' },
+      { status: 404 }
+    );
+  }
+
+  const history = await getHistory(monitor.id);
+  return NextResponse.json({
+    monitor,
+    status: computeMonitorStatus(history),
+    history: buildHistory(history),
+  });
+}
+
+export async function DELETE(_request: Request, { params }: { params: { id: string } }) {
+  if (!isMonitorStoreConfigured()) {
+    return NextResponse.json(
+      { error: MONITOR_STORE_UNAVAILABLE },
+      { status: 503 }
+    );
+  }
+  if (!(await removeMonitor(params.id))) {
+    return NextResponse.json(
+      { error: 'Monitor not found' },
+      { status: 404 }
+    );
+  }
+  return new Response(null, { status: 204 });
+}
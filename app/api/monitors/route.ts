@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  computeMonitorStatus,
+  DEFAULT_INTERVAL_MINUTES,
+  MIN_INTERVAL_MINUTES,
+  MonitorSummary,
+  summarizeSnapshot,
+} from '@/lib/monitor';
+import {
+  addMonitor,
+  getHistory,
+  isMonitorStoreConfigured,
+  listMonitors,
+  MONITOR_STORE_UNAVAILABLE,
+} from '@/lib/monitor-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Lists monitored feeds with their latest check and health status
+ */
+export async function GET() {
+  if (!isMonitorStoreConfigured()) {
+    return NextResponse.json(
+      { error: MONITOR_STORE_UNAVAILABLE },
+      { status: 503 }
+    );
+  }
+  const monitors = await listMonitors();
+  const summaries: MonitorSummary[] = await Promise.all(
+    monitors.map(async (monitor) => {
+      const history = await getHistory(monitor.id);
+      return {
+        monitor,
+        status: computeMonitorStatus(history),
+        latest: history.length > 0 ? summarizeSnapshot(history[history.length - 1]) : null,
+      };
+    })
+  );
+  return NextResponse.json({ monitors: summaries });
+}
+
+/**
+ * Registers a feed for scheduled re-checks
+ */
+export async function POST(request: NextRequest) {
+  if (!isMonitorStoreConfigured()) {
+    return NextResponse.json(
+      { error: MONITOR_STORE_UNAVAILABLE },
+      { status: 503 }
+    );
+  }
+  let url: unknown;
+  let intervalMinutes: unknown;
+  try {
+    ({ url, intervalMinutes } = await request.json());
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  if (!url || typeof url !== 'string') {
+    return NextResponse.json(
+      { error: 'Invalid URL provided' },
+      { status: 400 }
+    );
+  }
+  try {
+    new URL(url);
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid URL format' },
+      { status: 400 }
+    );
+  }
+
+  const interval = intervalMinutes === undefined ? DEFAULT_INTERVAL_MINUTES : Number(intervalMinutes);
+  if (!Number.isInteger(interval) || interval < MIN_INTERVAL_MINUTES) {
+    return NextResponse.json(
+      { error: `The check interval must be a whole number of at least ${MIN_INTERVAL_MINUTES} minutes` },
+      { status: 400 }
+    );
+  }
+
+  const monitor = await addMonitor(url.trim(), interval);
+  if (!monitor) {
+    return NextResponse.json(
+      { error: 'This feed is already monitored' },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json({ monitor }, { status: 201 });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { BatchResult } from '@/lib/batch';
+import { buildOpml } from '@/lib/opml';
+
+const OPTIONAL_TEXT_FIELDS = ['title', 'htmlUrl', 'feedType', 'postFrequency'] as const;
+
+/**
+ * The first field of a submitted result that cannot be written out, or null when it can be exported
+ */
+function findInvalidField(result: any): string | null {
+  if (!result || typeof result !== 'object') return 'entry';
+  if (typeof result.url !== 'string') return 'url';
+  for (const field of OPTIONAL_TEXT_FIELDS) {
+    if (result[field] !== undefined && result[field] !== null && typeof result[field] !== 'string') return field;
+  }
+  if (
+    result.folders !== undefined &&
+    (!Array.isArray(result.folders) || !result.folders.every((folder: unknown) => typeof folder === 'string'))
+  ) {
+    return 'folders';
+  }
+  return null;
+}
+
+/**
+ * Turns batch results back into an OPML download containing only the valid feeds
+ */
+export async function POST(request: NextRequest) {
+  let results: BatchResult[];
+  let title: string | undefined;
+  try {
+    ({ results, title } = await request.json());
+    if (!Array.isArray(results)) throw new Error();
+  } catch {
+    return NextResponse.json(
+      { error: 'Provide the batch results to export' },
+      { status: 400 }
+    );
+  }
+
+  const valid = results.filter((result) => result && result.isValid === true);
+  for (let index = 0; index < valid.length; index++) {
+    const field = findInvalidField(valid[index]);
+    if (field) {
+      return NextResponse.json(
+        { error: `Result ${results.indexOf(valid[index]) + 1} has an invalid ${field}` },
+        { status: 400 }
+      );
+    }
+  }
+
+  const opml = buildOpml(
+    valid.map((result) => ({
+      xmlUrl: result.url,
+      title: result.title ?? null,
+      htmlUrl: result.htmlUrl ?? null,
+      folders: result.folders ?? [],
+      feedType: result.feedType ?? null,
+      postFrequency: result.postFrequency ?? null,
+    })),
+    typeof title === 'string' && title ? title : undefined
+  );
+
+  return new Response(opml, {
+    headers: {
+      'Content-Type': 'text/x-opml; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="feeds.opml"',
+    },
+  });
+}
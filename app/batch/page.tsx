@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import LocalDateTime from '@/components/LocalDateTime';
+import type { BatchEvent, BatchResult } from '@/lib/batch';
+
+export default function BatchPage() {
+  const [urlList, setUrlList] = useState('');
+  const [opmlFile, setOpmlFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const urls = urlList
+    .split(/\s+/)
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!opmlFile && urls.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    setResults([]);
+    setTotal(0);
+
+    try {
+      const body = opmlFile ? { opml: await opmlFile.text() } : { urls };
+      const response = await fetch('/api/analyze/batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => null);
+        setError(data?.error || 'An unexpected error occurred');
+        return;
+      }
+
+      // Results arrive as newline-delimited JSON, one line per finished feed
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event: BatchEvent = JSON.parse(line);
+          if (event.type === 'start') {
+            setTotal(event.total);
+          } else if (event.type === 'result') {
+            setResults((previous) => [...previous, event.result].sort((a, b) => a.index - b.index));
+          }
+        }
+      }
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    const response = await fetch('/api/opml/export', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ results }),
+    });
+    if (!response.ok) {
+      setError('Could not export OPML');
+      return;
+    }
+
+    const blob = await response.blob();
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'feeds.opml';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const validCount = results.filter((result) => result.isValid).length;
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container mx-auto px-6 py-16 max-w-6xl">
+        <div className="mb-10">
+          <Link href="/" className="text-sm text-primary-600 hover:text-primary-700">
+            ← Single feed analyzer
+          </Link>
+          <h1 className="text-4xl font-light text-gray-900 mt-4 mb-3 tracking-tight">
+            Batch Feed Analysis
+          </h1>
+          <p className="text-gray-500 text-lg font-light">
+            Check many feeds at once from a URL list or an OPML file
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl p-8 mb-10 border border-gray-100 space-y-6">
+          <div>
+            <label
+              htmlFor="feed-urls"
+              className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide"
+            >
+              Feed URLs (one per line)
+            </label>
+            <textarea
+              id="feed-urls"
+              value={urlList}
+              onChange={(e) => setUrlList(e.target.value)}
+              placeholder={'https://example.com/feed.xml\nhttps://example.org/rss'}
+              rows={6}
+              className="w-full px-4 py-3.5 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none transition-all text-gray-900 placeholder-gray-400 font-mono text-sm"
+              disabled={loading || opmlFile !== null}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="opml-file"
+              className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide"
+            >
+              Or upload an OPML file
+            </label>
+            <input
+              id="opml-file"
+              type="file"
+              accept=".opml,.xml,text/x-opml,application/xml,text/xml"
+              onChange={(e) => setOpmlFile(e.target.files?.[0] || null)}
+              className="block text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-50 file:text-gray-700 hover:file:bg-gray-100"
+              disabled={loading}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading || (!opmlFile && urls.length === 0)}
+            className="w-full bg-primary-500 text-white font-medium py-3.5 px-6 rounded-lg hover:bg-primary-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? `Analyzing ${results.length} / ${total || '…'}` : 'Analyze Feeds'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 text-red-700 rounded-xl p-4 mb-8 text-sm">{error}</div>
+        )}
+
+        {results.length > 0 && (
+          <div>
+            <div className="flex items-center gap-6 mb-4 text-sm text-gray-600">
+              <span>{results.length} of {total} analyzed</span>
+              <span className="text-success-700">{validCount} valid</span>
+              <span className="text-red-600">{results.length - validCount} invalid</span>
+              {!loading && validCount > 0 && (
+                <button
+                  type="button"
+                  onClick={handleExport}
+                  className="ml-auto bg-white border border-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Export valid feeds as OPML
+                </button>
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium">Feed</th>
+                    <th className="py-2 pr-4 font-medium">Items</th>
+                    <th className="py-2 pr-4 font-medium">Type</th>
+                    <th className="py-2 pr-4 font-medium">Last Update</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map((result) => (
+                    <tr key={result.index} className="border-b border-gray-100 align-top">
+                      <td className="py-3 pr-4">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs font-medium ${
+                            result.isValid ? 'bg-success-50 text-success-700' : 'bg-red-50 text-red-700'
+                          }`}
+                        >
+                          {result.isValid ? 'Valid' : 'Invalid'}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4 max-w-md">
+                        <div className="text-gray-900 truncate">{result.title || result.url}</div>
+                        <div className="text-xs text-gray-400 font-mono truncate">{result.url}</div>
+                        {result.folders.length > 0 && <div className="text-xs text-gray-500">{result.folders.join(' › ')}</div>}
+                        {result.error && (
+                          <div className="text-xs text-red-600 mt-1">
+                            {result.errorCode && <span className="font-mono mr-1">{result.errorCode}</span>}
+                            {result.error}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">{result.itemCount ?? '–'}</td>
+                      <td className="py-3 pr-4 text-gray-700">{result.feedType || '–'}</td>
+                      <td className="py-3 pr-4 text-gray-700">{result.lastUpdate ? <LocalDateTime value={result.lastUpdate} /> : '–'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { FeedDiff, ItemFingerprint } from '@/lib/feed-diff';
+
+type DiffSource = { url: string } | { content: string } | { monitorId: string; snapshotId: string };
+
+// Item list for the added/removed sections
+function ItemList({ items, tone }: { items: ItemFingerprint[]; tone: 'added' | 'removed' }) {
+  return (
+    <ul className="space-y-2">
+      {items.map((item) => (
+        <li key={item.key} className="text-sm">
+          <span className={tone === 'added' ? 'text-success-700' : 'text-red-600'}>{tone === 'added' ? '+ ' : '− '}</span>
+          <span className="text-gray-900">{item.title || 'Untitled'}</span>
+          <div className="text-xs text-gray-400 font-mono truncate">{item.key}</div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function DiffPage({ searchParams }: { searchParams: { monitor?: string; before?: string; after?: string; url?: string } }) {
+  // A monitor's history links here with stored snapshot ids already chosen
+  const storedBefore = searchParams.monitor && searchParams.before ? searchParams.before : null;
+  const storedAfter = searchParams.monitor && searchParams.after ? searchParams.after : null;
+
+  const [beforeContent, setBeforeContent] = useState('');
+  const [afterUrl, setAfterUrl] = useState(searchParams.url || '');
+  const [afterContent, setAfterContent] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [diff, setDiff] = useState<FeedDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const beforeSource: DiffSource | null = storedBefore
+    ? { monitorId: searchParams.monitor as string, snapshotId: storedBefore }
+    : beforeContent.trim() ? { content: beforeContent } : null;
+  const afterSource: DiffSource | null = storedAfter
+    ? { monitorId: searchParams.monitor as string, snapshotId: storedAfter }
+    : afterContent.trim() ? { content: afterContent } : afterUrl.trim() ? { url: afterUrl.trim() } : null;
+
+  const compare = async () => {
+    if (!beforeSource || !afterSource) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/diff', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ before: beforeSource, after: afterSource }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'An unexpected error occurred');
+        setDiff(null);
+        return;
+      }
+      setDiff(data);
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Links from the monitor history have both sides ready, so compare straight away
+  useEffect(() => {
+    if (storedBefore && (storedAfter || searchParams.url)) {
+      compare();
+    }
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    compare();
+  };
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container mx-auto px-6 py-16 max-w-6xl">
+        <div className="mb-10">
+          <Link href={searchParams.monitor ? `/monitors/${searchParams.monitor}` : '/'} className="text-sm text-primary-600 hover:text-primary-700">
+            {searchParams.monitor ? '← Monitor history' : '← Single feed analyzer'}
+          </Link>
+          <h1 className="text-4xl font-light text-gray-900 mt-4 mb-3 tracking-tight">
+            Compare Feed Versions
+          </h1>
+          <p className="text-gray-500 text-lg font-light">
+            See exactly which items and fields changed between two versions of a feed
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl p-8 mb-10 border border-gray-100">
+          <div className="grid md:grid-cols-2 gap-6 mb-6">
+            <div>
+              <div className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide">Earlier version</div>
+              {storedBefore ? (
+                <div className="px-4 py-3.5 bg-gray-50 rounded-lg text-sm text-gray-700">Stored snapshot from the monitor history</div>
+              ) : (
+                <textarea
+                  value={beforeContent}
+                  onChange={(e) => setBeforeContent(e.target.value)}
+                  placeholder="Paste the older feed XML or JSON"
+                  rows={10}
+                  className="w-full px-4 py-3.5 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none transition-all text-gray-900 placeholder-gray-400 font-mono text-sm"
+                  disabled={loading}
+                />
+              )}
+            </div>
+            <div>
+              <div className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide">Later version</div>
+              {storedAfter ? (
+                <div className="px-4 py-3.5 bg-gray-50 rounded-lg text-sm text-gray-700">Stored snapshot from the monitor history</div>
+              ) : (
+                <div className="space-y-3">
+                  <input
+                    type="url"
+                    value={afterUrl}
+                    onChange={(e) => setAfterUrl(e.target.value)}
+                    placeholder="https://example.com/feed.xml"
+                    className="w-full px-4 py-3.5 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none transition-all text-gray-900 placeholder-gray-400"
+                    disabled={loading || afterContent.trim() !== ''}
+                  />
+                  <textarea
+                    value={afterContent}
+                    onChange={(e) => setAfterContent(e.target.value)}
+                    placeholder="…or paste the newer feed content"
+                    rows={6}
+                    className="w-full px-4 py-3.5 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none transition-all text-gray-900 placeholder-gray-400 font-mono text-sm"
+                    disabled={loading}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={loading || !beforeSource || !afterSource}
+            className="w-full bg-primary-500 text-white font-medium py-3.5 px-6 rounded-lg hover:bg-primary-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Comparing…' : 'Compare'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 text-red-700 rounded-xl p-4 mb-8 text-sm">{error}</div>
+        )}
+
+        {diff && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Added', value: diff.itemsAdded.length, className: 'text-success-700' },
+                { label: 'Removed', value: diff.itemsRemoved.length, className: 'text-red-600' },
+                { label: 'Changed', value: diff.itemsChanged.length, className: 'text-orange-600' },
+                { label: 'Unchanged', value: diff.itemsUnchanged, className: 'text-gray-900' },
+              ].map((stat) => (
+                <div key={stat.label} className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+                  <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">{stat.label} items</div>
+                  <div className={`text-2xl font-light ${stat.className}`}>{stat.value}</div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400">
+              {diff.before.label} ({diff.before.itemCount} items) → {diff.after.label} ({diff.after.itemCount} items)
+            </p>
+
+            {(diff.feedType || diff.fieldsAdded.length > 0 || diff.fieldsRemoved.length > 0) && (
+              <div className="bg-gray-50 rounded-xl p-6 border border-gray-100 text-sm space-y-2">
+                <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide mb-2">Feed Changes</h3>
+                {diff.feedType && (
+                  <p className="text-gray-700">
+                    Feed type: {diff.feedType.before || 'unknown'} → {diff.feedType.after || 'unknown'}
+                  </p>
+                )}
+                {diff.fieldsAdded.length > 0 && (
+                  <p className="text-success-700">Fields added: {diff.fieldsAdded.join(', ')}</p>
+                )}
+                {diff.fieldsRemoved.length > 0 && (
+                  <p className="text-red-600">Fields removed: {diff.fieldsRemoved.join(', ')}</p>
+                )}
+              </div>
+            )}
+
+            {diff.itemsChanged.length > 0 && (
+              <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+                <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide mb-4">Changed Items</h3>
+                <ul className="space-y-4">
+                  {diff.itemsChanged.map((item) => (
+                    <li key={item.key} className="text-sm">
+                      <div className="text-gray-900">{item.title || 'Untitled'}</div>
+                      <div className="text-xs text-gray-400 font-mono truncate mb-1">{item.key}</div>
+                      <ul className="space-y-1">
+                        {item.changes.map((change) => (
+                          <li key={change.field} className="text-xs text-gray-600">
+                            <span className="font-mono text-gray-700">{change.field}</span>:{' '}
+                            {change.field === 'content' ? (
+                              'body was edited'
+                            ) : (
+                              <>
+                                <span className="line-through text-red-600">{change.before || 'none'}</span> →{' '}
+                                <span className="text-success-700">{change.after || 'none'}</span>
+                              </>
+                            )}
+                          </li>
+                        ))}
+                        {item.fieldsAdded.length > 0 && (
+                          <li className="text-xs text-success-700">Fields added: {item.fieldsAdded.join(', ')}</li>
+                        )}
+                        {item.fieldsRemoved.length > 0 && (
+                          <li className="text-xs text-red-600">Fields removed: {item.fieldsRemoved.join(', ')}</li>
+                        )}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {diff.itemsAdded.length > 0 && (
+              <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+                <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide mb-4">Added Items</h3>
+                <ItemList items={diff.itemsAdded} tone="added" />
+              </div>
+            )}
+
+            {diff.itemsRemoved.length > 0 && (
+              <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+                <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide mb-4">Removed Items</h3>
+                <ItemList items={diff.itemsRemoved} tone="removed" />
+              </div>
+            )}
+
+            {diff.itemsAdded.length + diff.itemsRemoved.length + diff.itemsChanged.length === 0 &&
+              !diff.feedType && diff.fieldsAdded.length + diff.fieldsRemoved.length === 0 && (
+              <p className="text-sm text-gray-500">The two versions are identical in items, fields and feed type.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  applyMapping,
+  exportMapping,
+  MAPPING_TARGETS,
+  MAX_SAMPLE_ITEMS,
+  SOURCE_FIELD_LABELS,
+  suggestMapping,
+} from '@/lib/field-mapping';
+import type { FieldMapping, MappingSource, MappingTarget } from '@/lib/field-mapping';
+
+const TARGET_LABELS: Record<MappingTarget, string> = {
+  title: 'Title',
+  body: 'Body',
+  summary: 'Summary',
+  image: 'Image',
+  author: 'Author',
+  link: 'Link',
+  publishedAt: 'Published at',
+  guid: 'GUID',
+  categories: 'Categories',
+};
+
+// Long bodies are cut in the preview only; the export is just the mapping
+const PREVIEW_TEXT_LENGTH = 300;
+
+// Select for one source field of a target; empty means unmapped
+function SourceSelect({ value, fields, coverage, onChange }: {
+  value: string;
+  fields: string[];
+  coverage: Record<string, string>;
+  onChange: (field: string) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-white border border-gray-200 text-gray-700 text-sm rounded-lg py-2 px-3 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+    >
+      <option value="">—</option>
+      {fields.map((field) => (
+        <option key={field} value={field}>
+          {SOURCE_FIELD_LABELS[field] ? `${field} (${SOURCE_FIELD_LABELS[field]})` : field} · {coverage[field] || 'not in feed'}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function MappingPage() {
+  const [url, setUrl] = useState('');
+  const [content, setContent] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [source, setSource] = useState<MappingSource | null>(null);
+  const [mapping, setMapping] = useState<FieldMapping | null>(null);
+  const [previewCount, setPreviewCount] = useState(5);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim() && !content.trim()) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/mapping', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(content.trim() ? { content } : { url: url.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'An unexpected error occurred');
+        return;
+      }
+      setSource(data);
+      setMapping(suggestMapping(data.availableFields));
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setSourceField = (target: MappingTarget, position: number, field: string) => {
+    if (!mapping) return;
+    const fields = [...mapping[target]];
+    fields[position] = field;
+    setMapping({ ...mapping, [target]: fields.filter(Boolean) });
+  };
+
+  const handleExport = () => {
+    if (!mapping || !source) return;
+    const blob = new Blob([JSON.stringify(exportMapping(mapping, source.finalUrl), null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'field-mapping.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const coverage: Record<string, string> = {};
+  for (const entry of source?.fieldCoverage || []) {
+    coverage[entry.field] = `${entry.present}/${entry.total}`;
+  }
+  const records = source && mapping
+    ? source.sourceItems.slice(0, previewCount).map((values) => applyMapping(values, mapping))
+    : [];
+  const preview = JSON.stringify(
+    records,
+    (_key, value) => typeof value === 'string' && value.length > PREVIEW_TEXT_LENGTH ? `${value.slice(0, PREVIEW_TEXT_LENGTH)}…` : value,
+    2
+  );
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container mx-auto px-6 py-16 max-w-6xl">
+        <div className="mb-10">
+          <Link href="/" className="text-sm text-primary-600 hover:text-primary-700">
+            ← Single feed analyzer
+          </Link>
+          <h1 className="text-4xl font-light text-gray-900 mt-4 mb-3 tracking-tight">
+            Field Mapping
+          </h1>
+          <p className="text-gray-500 text-lg font-light">
+            Map feed fields to your importer&apos;s record and preview the result on real items
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl p-8 mb-10 border border-gray-100 space-y-3">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/feed.xml"
+            className="w-full px-4 py-3.5 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none transition-all text-gray-900 placeholder-gray-400"
+            disabled={loading || content.trim() !== ''}
+          />
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="…or paste the feed content"
+            rows={4}
+            className="w-full px-4 py-3.5 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none transition-all text-gray-900 placeholder-gray-400 font-mono text-sm"
+            disabled={loading}
+          />
+          <button
+            type="submit"
+            disabled={loading || (!url.trim() && !content.trim())}
+            className="w-full bg-primary-500 text-white font-medium py-3.5 px-6 rounded-lg hover:bg-primary-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? 'Loading…' : 'Load Fields'}
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 text-red-700 rounded-xl p-4 mb-8 text-sm">{error}</div>
+        )}
+
+        {source && mapping && (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+              <div className="flex items-center gap-2 mb-4">
+                <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Mapping</h3>
+                <button
+                  type="button"
+                  onClick={() => setMapping(suggestMapping(source.availableFields))}
+                  className="ml-auto text-sm text-primary-600 hover:text-primary-700"
+                >
+                  Reset
+                </button>
+                <button
+                  type="button"
+                  onClick={handleExport}
+                  className="bg-white border border-gray-200 text-gray-700 text-sm font-medium py-1.5 px-3 rounded-lg hover:bg-gray-100 transition-colors"
+                >
+                  Export JSON
+                </button>
+              </div>
+              <p className="text-sm text-gray-500 mb-4">
+                {source.title || 'Untitled feed'}. The fallback is used for items that lack the first field.
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+                    <th className="pb-2 font-medium">Target</th>
+                    <th className="pb-2 font-medium">Source field</th>
+                    <th className="pb-2 font-medium">Fallback</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {MAPPING_TARGETS.map((target) => (
+                    <tr key={target}>
+                      <td className="py-1.5 pr-3 text-gray-900 whitespace-nowrap">{TARGET_LABELS[target]}</td>
+                      <td className="py-1.5 pr-3">
+                        <SourceSelect
+                          value={mapping[target][0] || ''}
+                          fields={source.sourceFields}
+                          coverage={coverage}
+                          onChange={(field) => setSourceField(target, 0, field)}
+                        />
+                      </td>
+                      <td className="py-1.5">
+                        <SourceSelect
+                          value={mapping[target][1] || ''}
+                          fields={source.sourceFields}
+                          coverage={coverage}
+                          onChange={(field) => setSourceField(target, 1, field)}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+              <div className="flex items-center gap-2 mb-4">
+                <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Preview</h3>
+                <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+                  First
+                  <input
+                    type="number"
+                    min={1}
+                    max={Math.min(MAX_SAMPLE_ITEMS, source.sourceItems.length) || 1}
+                    value={previewCount}
+                    onChange={(e) => setPreviewCount(Math.max(1, Math.min(MAX_SAMPLE_ITEMS, Number(e.target.value) || 1)))}
+                    className="w-16 bg-white border border-gray-200 rounded-lg py-1 px-2 text-gray-900"
+                  />
+                  items
+                </label>
+              </div>
+              {records.length === 0 ? (
+                <p className="text-sm text-gray-500">The feed has no items.</p>
+              ) : (
+                <pre className="text-xs text-gray-700 bg-white border border-gray-200 rounded-lg p-4 overflow-auto max-h-[36rem]">{preview}</pre>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
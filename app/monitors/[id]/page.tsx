@@ -0,0 +1,205 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import MonitorStatusBadges, { formatAge, formatUptime } from '@/components/MonitorStatusBadges';
+import LocalDateTime from '@/components/LocalDateTime';
+import type { HistoryEntry, MonitorStatus } from '@/lib/monitor';
+import type { MonitoredFeed } from '@/lib/monitor-store';
+
+// How many recent checks the uptime strip shows
+const UPTIME_STRIP_LENGTH = 60;
+
+interface MonitorDetails {
+  monitor: MonitoredFeed;
+  status: MonitorStatus;
+  history: HistoryEntry[];
+}
+
+export default function MonitorPage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const [details, setDetails] = useState<MonitorDetails | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDetails = useCallback(async () => {
+    const response = await fetch(`/api/monitors/${params.id}`);
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || 'An unexpected error occurred');
+      return;
+    }
+    setDetails(data);
+  }, [params.id]);
+
+  useEffect(() => {
+    loadDetails();
+  }, [loadDetails]);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    try {
+      await fetch(`/api/monitors/${params.id}/check`, { method: 'POST' });
+      await loadDetails();
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Stop monitoring this feed and delete its history?')) return;
+    await fetch(`/api/monitors/${params.id}`, { method: 'DELETE' });
+    router.push('/monitors');
+  };
+
+  const latest = details?.history[0]?.snapshot;
+  // Oldest to newest, left to right
+  const strip = details ? details.history.slice(0, UPTIME_STRIP_LENGTH).reverse() : [];
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container mx-auto px-6 py-16 max-w-6xl">
+        <Link href="/monitors" className="text-sm text-primary-600 hover:text-primary-700">
+          ← All monitored feeds
+        </Link>
+
+        {error && (
+          <div className="bg-red-50 text-red-700 rounded-xl p-4 mt-8 text-sm">{error}</div>
+        )}
+
+        {details && (
+          <>
+            <div className="flex flex-col md:flex-row md:items-start gap-4 mt-4 mb-10">
+              <div className="flex-1 min-w-0">
+                <h1 className="text-3xl font-light text-gray-900 mb-2 tracking-tight truncate">
+                  {latest?.title || details.monitor.url}
+                </h1>
+                <div className="text-sm text-gray-500 font-mono truncate mb-3">{details.monitor.url}</div>
+                <MonitorStatusBadges status={details.status} />
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={handleCheck}
+                  disabled={checking}
+                  className="bg-primary-500 text-white font-medium py-2 px-4 rounded-lg hover:bg-primary-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  {checking ? 'Checking…' : 'Check Now'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleRemove}
+                  className="bg-white border border-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Stop Monitoring
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+              {[
+                { label: 'Uptime', value: formatUptime(details.status) },
+                { label: 'Checks', value: details.status.checks.toLocaleString() },
+                { label: 'Latest Item', value: formatAge(details.status.daysSinceLatestItem) },
+                { label: 'Interval', value: `${details.monitor.intervalMinutes} min` },
+              ].map((stat) => (
+                <div key={stat.label} className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+                  <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">{stat.label}</div>
+                  <div className="text-2xl font-light text-gray-900">{stat.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {strip.length > 0 && (
+              <div className="mb-10">
+                <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide mb-3">Recent Checks</h3>
+                <div className="flex gap-0.5 h-8">
+                  {strip.map(({ snapshot }) => (
+                    <div
+                      key={snapshot.id}
+                      title={`${new Date(snapshot.checkedAt).toLocaleString()}: ${snapshot.isValid ? 'valid' : snapshot.error || 'invalid'}`}
+                      className={`flex-1 max-w-[12px] rounded-sm ${snapshot.isValid ? 'bg-success-500' : 'bg-red-500'}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide mb-3">History</h3>
+            {details.history.length === 0 ? (
+              <p className="text-sm text-gray-500">This feed has not been checked yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Checked</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium">Items</th>
+                      <th className="py-2 pr-4 font-medium">Last Update</th>
+                      <th className="py-2 pr-4 font-medium">Duplicate GUIDs</th>
+                      <th className="py-2 pr-4 font-medium">Errors</th>
+                      <th className="py-2 pr-4 font-medium">Changes</th>
+                      <th className="py-2 pr-4 font-medium">Compare</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {details.history.map(({ snapshot, changes }, index) => {
+                      const previous = details.history[index + 1]?.snapshot;
+                      return (
+                        <tr key={snapshot.id} className="border-b border-gray-100 align-top">
+                          <td className="py-3 pr-4 text-gray-700 whitespace-nowrap">
+                            {new Date(snapshot.checkedAt).toLocaleString()}
+                          </td>
+                          <td className="py-3 pr-4">
+                            <span
+                              className={`px-2 py-0.5 rounded text-xs font-medium ${
+                                snapshot.isValid ? 'bg-success-50 text-success-700' : 'bg-red-50 text-red-700'
+                              }`}
+                            >
+                              {snapshot.isValid ? 'Valid' : snapshot.errorCode || 'Invalid'}
+                            </span>
+                          </td>
+                          <td className="py-3 pr-4 text-gray-700">{snapshot.itemCount ?? '–'}</td>
+                          <td className="py-3 pr-4 text-gray-700">{snapshot.lastUpdate ? <LocalDateTime value={snapshot.lastUpdate} /> : '–'}</td>
+                          <td className="py-3 pr-4 text-gray-700">{snapshot.duplicateGuids.length}</td>
+                          <td className="py-3 pr-4 text-gray-700" title={snapshot.validationErrors.join('\n')}>
+                            {snapshot.validationErrors.length}
+                          </td>
+                          <td className="py-3 pr-4 text-xs text-gray-600">
+                            {changes.length > 0 ? changes.join(' · ') : <span className="text-gray-400">No change</span>}
+                          </td>
+                          <td className="py-3 pr-4 text-xs whitespace-nowrap">
+                            {snapshot.hasItems && (
+                              <div className="flex flex-col gap-1">
+                                {previous?.hasItems && (
+                                  <Link
+                                    href={`/diff?monitor=${details.monitor.id}&before=${previous.id}&after=${snapshot.id}`}
+                                    className="text-primary-600 hover:text-primary-700"
+                                  >
+                                    Previous check
+                                  </Link>
+                                )}
+                                <Link
+                                  href={`/diff?monitor=${details.monitor.id}&before=${snapshot.id}&url=${encodeURIComponent(details.monitor.url)}`}
+                                  className="text-primary-600 hover:text-primary-700"
+                                >
+                                  Live feed
+                                </Link>
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
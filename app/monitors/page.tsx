@@ -0,0 +1,180 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import MonitorStatusBadges, { formatAge, formatUptime } from '@/components/MonitorStatusBadges';
+import type { MonitorSummary } from '@/lib/monitor';
+
+export default function MonitorsPage() {
+  const [monitors, setMonitors] = useState<MonitorSummary[]>([]);
+  const [url, setUrl] = useState('');
+  const [intervalMinutes, setIntervalMinutes] = useState(60);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMonitors = useCallback(async () => {
+    const response = await fetch('/api/monitors');
+    const data = await response.json();
+    if (response.ok) {
+      setMonitors(data.monitors);
+    } else {
+      setError(data.error || 'An unexpected error occurred');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMonitors();
+  }, [loadMonitors]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/monitors', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url: url.trim(), intervalMinutes }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'An unexpected error occurred');
+        return;
+      }
+
+      // Run the first check right away rather than waiting for the scheduler
+      await fetch(`/api/monitors/${data.monitor.id}/check`, { method: 'POST' });
+      setUrl('');
+      await loadMonitors();
+    } catch {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="container mx-auto px-6 py-16 max-w-6xl">
+        <div className="mb-10">
+          <div className="flex justify-between">
+            <Link href="/" className="text-sm text-primary-600 hover:text-primary-700">
+              ← Single feed analyzer
+            </Link>
+            <Link href="/alerts" className="text-sm text-primary-600 hover:text-primary-700">
+              Alert rules →
+            </Link>
+          </div>
+          <h1 className="text-4xl font-light text-gray-900 mt-4 mb-3 tracking-tight">
+            Feed Monitoring
+          </h1>
+          <p className="text-gray-500 text-lg font-light">
+            Re-check feeds on a schedule and see when they break or go stale
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl p-8 mb-10 border border-gray-100">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1">
+              <label
+                htmlFor="monitor-url"
+                className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide"
+              >
+                Feed URL
+              </label>
+              <input
+                id="monitor-url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/feed.xml"
+                className="w-full px-4 py-3.5 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none transition-all text-gray-900 placeholder-gray-400"
+                disabled={loading}
+                required
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="monitor-interval"
+                className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide"
+              >
+                Check every
+              </label>
+              <select
+                id="monitor-interval"
+                value={intervalMinutes}
+                onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+                className="px-4 py-3.5 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-gray-900"
+                disabled={loading}
+              >
+                <option value={15}>15 minutes</option>
+                <option value={60}>hour</option>
+                <option value={360}>6 hours</option>
+                <option value={1440}>day</option>
+              </select>
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={loading || !url.trim()}
+                className="bg-primary-500 text-white font-medium py-3.5 px-6 rounded-lg hover:bg-primary-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                {loading ? 'Adding…' : 'Monitor Feed'}
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {error && (
+          <div className="bg-red-50 text-red-700 rounded-xl p-4 mb-8 text-sm">{error}</div>
+        )}
+
+        {monitors.length === 0 ? (
+          <p className="text-sm text-gray-500">No feeds are monitored yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wide border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Feed</th>
+                  <th className="py-2 pr-4 font-medium">Uptime</th>
+                  <th className="py-2 pr-4 font-medium">Latest Item</th>
+                  <th className="py-2 pr-4 font-medium">Last Checked</th>
+                </tr>
+              </thead>
+              <tbody>
+                {monitors.map(({ monitor, status, latest }) => (
+                  <tr key={monitor.id} className="border-b border-gray-100 align-top">
+                    <td className="py-3 pr-4">
+                      <MonitorStatusBadges status={status} />
+                    </td>
+                    <td className="py-3 pr-4 max-w-md">
+                      <Link href={`/monitors/${monitor.id}`} className="text-gray-900 hover:text-primary-600 truncate block">
+                        {latest?.title || monitor.url}
+                      </Link>
+                      <div className="text-xs text-gray-400 font-mono truncate">{monitor.url}</div>
+                      {latest?.error && <div className="text-xs text-red-600 mt-1">{latest.error}</div>}
+                    </td>
+                    <td className="py-3 pr-4 text-gray-700">
+                      {formatUptime(status)}
+                      <div className="text-xs text-gray-400">{status.checks} checks</div>
+                    </td>
+                    <td className="py-3 pr-4 text-gray-700">{formatAge(status.daysSinceLatestItem)}</td>
+                    <td className="py-3 pr-4 text-gray-700">
+                      {monitor.lastCheckedAt ? new Date(monitor.lastCheckedAt).toLocaleString() : 'Never'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
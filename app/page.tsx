@@ -1,72 +1,928 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-
-interface FeedAnalysis {
-  isValid: boolean;
-  title?: string;
-  availableFields: string[];
-  hasFeaturedImage: boolean;
-  contentType: 'full' | 'excerpt' | 'unknown';
-  lastUpdate?: string | null;
-  itemCount?: number;
-  feedType?: string;
-  postFrequency?: string | null;
-  duplicateGuids?: string[];
-  missingFields?: string[];
-  imageSources?: {
-    mediaContent: number;
-    mediaThumbnail: number;
-    enclosure: number;
-    imgTag: number;
-    openGraph: number;
-  };
-  imageResolutions?: Array<{ url: string }>;
-  error?: string;
+import { useState } from 'react';
+import Link from 'next/link';
+import ItemTable from '@/components/ItemTable';
+import LocalDateTime from '@/components/LocalDateTime';
+import type { FeedAnalysis } from '@/lib/analyze';
+import type { CadenceReport } from '@/lib/cadence';
+import type { ContentPreview } from '@/lib/content-preview';
+import type { ContentClassification } from '@/lib/content-type';
+import type { DateAudit } from '@/lib/date-audit';
+import type { EncodingReport } from '@/lib/encoding';
+import type { ImageReport } from '@/lib/image-probe';
+import type { CheckedLink, LinkReport } from '@/lib/link-check';
+import type { NamespaceInventory } from '@/lib/namespaces';
+import type { PodcastReport } from '@/lib/podcast';
+import { getReadinessProfile, READINESS_PROFILES, scoreReadiness } from '@/lib/readiness';
+import type { ReadinessStatus } from '@/lib/readiness';
+import type { AnalysisErrorCode, AnalysisErrorDetails } from '@/lib/errors';
+import type { ValidationDiagnostic } from '@/lib/validation';
+
+// Troubleshooting advice for each error code, using whatever details the server sent
+function getErrorHint(code: AnalysisErrorCode, details: AnalysisErrorDetails = {}): string | null {
+  const host = details.host || 'the server';
+  switch (code) {
+    case 'INVALID_URL':
+      return 'Check that the URL starts with http:// or https:// and has no typos or spaces.';
+    case 'DNS_FAILURE':
+      return `The domain ${host} does not resolve. Check the spelling, and whether the domain has expired or moved.`;
+    case 'CONNECTION_FAILED':
+      return `${host} refused or dropped the connection. The site may be down, or a firewall may be blocking outside requests.`;
+    case 'TLS_ERROR':
+      return `The HTTPS certificate for ${host} could not be verified${details.systemCode ? ` (${details.systemCode})` : ''}. Renew the certificate or serve the full certificate chain.`;
+    case 'TIMEOUT':
+      return `${host} took too long to respond. Try again later, or check whether the feed is generated on every request and could be cached.`;
+    case 'HTTP_STATUS':
+      if (details.status === 404 || details.status === 410) {
+        return 'The feed URL does not exist on the server. Look for the current feed link on the site, or enter the homepage URL to discover it.';
+      }
+      if (details.status === 401 || details.status === 403) {
+        return `${host} refused access. The feed may require login, or the server may block automated clients by user agent or IP.`;
+      }
+      if (details.status === 429) {
+        return `${host} is rate limiting requests. Wait a few minutes before trying again.`;
+      }
+      if (details.status && details.status >= 500) {
+        return `${host} had an internal error. The problem is on the server side; try again later.`;
+      }
+      return `${host} answered with HTTP ${details.status ?? 'error'} instead of the feed.`;
+    case 'TOO_MANY_REDIRECTS':
+      return `The URL kept redirecting${details.maxRedirects ? ` more than ${details.maxRedirects} times` : ''}. Check for a redirect loop, or use the final feed URL directly.`;
+    case 'TOO_LARGE':
+      return 'The response is larger than this analyzer accepts. Limit the number of items or serve excerpts instead of full content.';
+    case 'BLOCKED_BY_POLICY':
+      return 'Private, local and reserved addresses and non-HTTP schemes cannot be fetched. Use the public feed URL, or paste the feed content instead.';
+    case 'NOT_A_FEED':
+      return 'The URL returned a document that is not RSS, Atom or JSON Feed. Make sure it points at the feed itself, not the page that links to it.';
+    case 'NOT_XML':
+      return 'The response is not XML or JSON. The server may be returning an error page, a login page or a bot challenge instead of the feed.';
+    case 'PARSE_ERROR':
+      return 'The feed is malformed. Unescaped "&" and "<" characters and stray output before the XML declaration are the usual causes.';
+    case 'VALIDATION_FAILED':
+      return 'The feed is missing required elements. Fix the errors below in the feed generator.';
+    default:
+      return null;
+  }
 }
 
-// Component to display image with dimensions
-function ImageWithDimensions({ url }: { url: string }) {
-  const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+// Component to list validation diagnostics with their source location
+function DiagnosticList({ diagnostics }: { diagnostics: ValidationDiagnostic[] }) {
+  return (
+    <ul className="space-y-3">
+      {diagnostics.map((diagnostic, idx) => (
+        <li key={idx} className="text-sm">
+          <div className="flex items-center gap-2 mb-1">
+            <span
+              className={`px-2 py-0.5 rounded text-xs font-medium uppercase ${
+                diagnostic.severity === 'error' ? 'bg-red-50 text-red-700' : 'bg-orange-50 text-orange-700'
+              }`}
+            >
+              {diagnostic.severity}
+            </span>
+            <span className="text-xs text-gray-500 font-mono">
+              Line {diagnostic.line}, column {diagnostic.column}
+            </span>
+            <span className="text-xs text-gray-400 font-mono">{diagnostic.rule}</span>
+          </div>
+          <p className="text-gray-700">{diagnostic.message}</p>
+          {diagnostic.snippet && (
+            <pre className="mt-1 px-3 py-2 bg-gray-50 rounded text-xs text-gray-600 font-mono overflow-x-auto">
+              {diagnostic.snippet}
+            </pre>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
 
-  useEffect(() => {
-    const img = new Image();
-    img.onload = () => {
-      setDimensions({ width: img.naturalWidth, height: img.naturalHeight });
-      setLoading(false);
-    };
-    img.onerror = () => {
-      setError('Failed to load');
-      setLoading(false);
-    };
-    img.src = url;
-  }, [url]);
+// Component to show the declared encodings and the items they garbled
+function EncodingCard({ encoding }: { encoding: EncodingReport }) {
+  const hasProblems = encoding.warnings.length > 0 || encoding.affectedItems.length > 0;
+  return (
+    <div className={`rounded-xl p-6 border ${hasProblems ? 'bg-orange-50 border-orange-100 md:col-span-2' : 'bg-gray-50 border-gray-100'}`}>
+      <div className="flex items-center gap-2 mb-4">
+        <svg className={`w-4 h-4 ${hasProblems ? 'text-orange-500' : 'text-gray-500'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Character Encoding</h3>
+      </div>
+      <p className={`font-light text-lg mb-1 ${hasProblems ? 'text-orange-600' : 'text-gray-900'}`}>
+        Decoded as <span className="font-mono">{encoding.used}</span>
+      </p>
+      <div className="space-y-1 text-sm text-gray-600 mb-2">
+        {[
+          ['Byte order mark', encoding.bom],
+          ['XML declaration', encoding.xmlDeclaration],
+          ['Content-Type charset', encoding.httpCharset],
+        ].map(([name, value]) => (
+          <div key={name}>
+            {name}: {value ? <span className="font-mono text-xs">{value}</span> : <span className="text-gray-400">none</span>}
+          </div>
+        ))}
+        {encoding.firstInvalidLine !== null && (
+          <div>First invalid byte sequence on line {encoding.firstInvalidLine}</div>
+        )}
+      </div>
+      {encoding.warnings.length > 0 && (
+        <ul className="list-disc list-inside space-y-1 text-sm text-orange-700 mb-2">
+          {encoding.warnings.map((warning, idx) => (
+            <li key={idx}>{warning}</li>
+          ))}
+        </ul>
+      )}
+      {encoding.affectedItems.length > 0 && (
+        <div className="mt-3 space-y-2">
+          <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Affected items</p>
+          {encoding.affectedItems.map((item) => (
+            <div key={item.index} className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500">#{item.index + 1}</span>
+                <span className="text-gray-900 truncate">{item.title || 'Untitled item'}</span>
+                <span className="px-2 py-0.5 rounded text-xs font-medium bg-white text-orange-700 border border-orange-200">
+                  {item.issue === 'invalid-bytes' ? 'Invalid bytes' : 'Mojibake'}
+                </span>
+              </div>
+              <p className="font-mono text-xs text-gray-600 break-all">…{item.sample}…</p>
+            </div>
+          ))}
+        </div>
+      )}
+      {!hasProblems && (
+        <p className="text-sm text-gray-500">The declared encodings agree and every byte decoded cleanly.</p>
+      )}
+    </div>
+  );
+}
+
+// Component to display a thumbnail; the dimensions come from the server, so a blocked preview loses nothing
+function ImageThumbnail({ url }: { url: string }) {
+  const [failed, setFailed] = useState(false);
+
+  return (
+    <div className="relative flex-shrink-0 w-20 h-14 rounded-lg overflow-hidden border border-gray-200 bg-gray-100">
+      {failed ? (
+        <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-xs text-center px-1">No preview</div>
+      ) : (
+        <img
+          src={url}
+          alt="Image from feed"
+          className="w-full h-full object-cover"
+          loading="lazy"
+          onError={() => setFailed(true)}
+        />
+      )}
+    </div>
+  );
+}
+
+// Component to display the server-side format and dimensions of every feed image
+function ImagesCard({ report }: { report: ImageReport }) {
+  const { requirements } = report;
+  const aspectRange = [
+    requirements.minAspectRatio !== null ? `at least ${requirements.minAspectRatio.toFixed(2)}:1` : null,
+    requirements.maxAspectRatio !== null ? `at most ${requirements.maxAspectRatio.toFixed(2)}:1` : null,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className={`rounded-xl p-6 border md:col-span-2 ${report.flagged > 0 ? 'bg-orange-50 border-orange-100' : 'bg-gray-50 border-gray-100'}`}>
+      <div className="flex items-center gap-2 mb-4">
+        <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Image Resolution Check</h3>
+      </div>
+      <p className={`font-light text-lg mb-1 ${report.flagged > 0 ? 'text-orange-700' : 'text-gray-900'}`}>
+        {report.flagged > 0
+          ? `${report.flagged} of ${report.probed} images need attention`
+          : `All ${report.probed} images meet the requirements`}
+      </p>
+      <p className="text-sm text-gray-500 mb-4">
+        Minimum {requirements.minWidth} × {requirements.minHeight}px{aspectRange && `, aspect ratio ${aspectRange}`}.
+        {report.skipped > 0 &&
+          (report.timedOut
+            ? ` Time ran out before ${report.skipped} more images could be checked.`
+            : ` ${report.skipped} more images were not checked.`)}
+      </p>
+      <ul className="space-y-3 max-h-96 overflow-y-auto">
+        {report.images.map((image) => (
+          <li key={image.url} className="flex items-start gap-3">
+            <ImageThumbnail url={image.url} />
+            <div className="min-w-0 text-sm">
+              <p className="font-mono text-xs text-gray-600 truncate">{image.url}</p>
+              {image.width !== null && image.height !== null && (
+                <p className="text-gray-900">
+                  {image.width} × {image.height}px
+                  <span className="text-gray-500">
+                    {' · '}{image.format?.toUpperCase()}
+                    {image.byteSize !== null && ` · ${(image.byteSize / 1024).toFixed(1)} KB`}
+                  </span>
+                </p>
+              )}
+              {image.error && <p className="text-xs text-red-600">{image.error}</p>}
+              {image.issues.map((issue) => (
+                <p key={issue} className="text-xs text-orange-700">{issue}</p>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+type InputMode = 'url' | 'content';
+type AnalyzeInput = { url: string } | { content: string } | { contentBase64: string };
+
+// Tabs to switch between analyzing a URL and pasted/uploaded content
+function InputModeTabs({ mode, onChange, disabled }: { mode: InputMode; onChange: (mode: InputMode) => void; disabled: boolean }) {
+  const tabs: Array<{ value: InputMode; label: string }> = [
+    { value: 'url', label: 'URL' },
+    { value: 'content', label: 'Paste / Upload' },
+  ];
 
   return (
-    <div className="space-y-2">
-      <div className="relative rounded-lg overflow-hidden border border-gray-200 bg-gray-100 aspect-video w-full">
-        {loading ? (
-          <div className="absolute inset-0 flex items-center justify-center text-gray-400 text-sm">Loading...</div>
-        ) : error ? (
-          <div className="absolute inset-0 flex items-center justify-center text-orange-600 text-sm">{error}</div>
-        ) : (
-          <img
-            src={url}
-            alt="Sample from feed"
-            className="w-full h-full object-cover"
-            loading="lazy"
+    <div className="flex gap-1 p-1 bg-gray-100 rounded-lg text-sm">
+      {tabs.map((tab) => (
+        <button
+          key={tab.value}
+          type="button"
+          onClick={() => onChange(tab.value)}
+          disabled={disabled}
+          className={`flex-1 py-1.5 rounded-md transition-colors ${
+            mode === tab.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          {tab.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Encodes a file's bytes as base64, so the server can detect its charset instead of assuming UTF-8
+async function readFileAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(offset, offset + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+// Textarea for raw feed XML/JSON, filled from an uploaded file if one is picked
+function FeedContentInput({
+  id,
+  content,
+  onChange,
+  onUpload,
+  disabled,
+  compact = false,
+}: {
+  id: string;
+  content: string;
+  onChange: (content: string) => void;
+  onUpload: (file: File) => void;
+  disabled: boolean;
+  compact?: boolean;
+}) {
+  return (
+    <div>
+      <label
+        htmlFor={id}
+        className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide"
+      >
+        Feed XML or JSON
+      </label>
+      <textarea
+        id={id}
+        value={content}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={'<?xml version="1.0"?>\n<rss version="2.0">…'}
+        rows={compact ? 8 : 10}
+        className={`w-full px-4 border-0 rounded-lg focus:ring-2 focus:ring-primary-500 outline-none transition-all text-gray-900 placeholder-gray-400 font-mono text-xs ${
+          compact ? 'py-3 bg-white' : 'py-3.5 bg-gray-50 focus:bg-white'
+        }`}
+        disabled={disabled}
+      />
+      <input
+        type="file"
+        accept=".xml,.rss,.atom,.rdf,.json,application/xml,text/xml,application/json"
+        onChange={async (e) => {
+          const file = e.target.files?.[0];
+          if (file) onUpload(file);
+        }}
+        className="mt-2 block w-full text-xs text-gray-600 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+        disabled={disabled}
+      />
+    </div>
+  );
+}
+
+const LINK_KIND_LABELS: Record<CheckedLink['kind'], string> = {
+  link: 'Link',
+  enclosure: 'Enclosure',
+  image: 'Image',
+};
+
+// Component to run the server-side link check and list the items with broken or mismatched URLs
+function LinksCard({ links, loading, onCheck }: { links?: LinkReport; loading: boolean; onCheck: () => void }) {
+  const problemItems = links
+    ? links.items.filter((item) => item.links.some((link) => (link.result && !link.result.ok) || link.mismatches.length > 0))
+    : [];
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 border border-gray-100 md:col-span-2">
+      <div className="flex items-center gap-2 mb-4">
+        <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Link Check</h3>
+        <button
+          type="button"
+          onClick={onCheck}
+          disabled={loading}
+          className="ml-auto bg-white border border-gray-200 text-gray-700 text-sm font-medium py-1.5 px-3 rounded-lg hover:bg-gray-100 disabled:opacity-40 transition-colors"
+        >
+          {loading ? 'Checking…' : links ? 'Check Again' : 'Check Links'}
+        </button>
+      </div>
+      {!links ? (
+        <p className="text-sm text-gray-500">
+          Sends a HEAD request to every item link, enclosure and image to find broken URLs and sizes or types that differ from what the feed declares.
+        </p>
+      ) : (
+        <>
+          <p className={`font-light text-lg mb-1 ${links.broken > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {links.broken > 0 ? `${links.broken} of ${links.checked} URLs are broken` : `All ${links.checked} URLs are reachable`}
+          </p>
+          {links.skipped > 0 && (
+            <p className="text-sm text-gray-500 mb-2">
+              {links.timedOut
+                ? `Time ran out before ${links.skipped} more URLs could be checked.`
+                : `${links.skipped} more URLs were not checked.`}
+            </p>
+          )}
+          {problemItems.length > 0 && (
+            <div className="mt-4 space-y-4">
+              {problemItems.map((item) => (
+                <div key={item.index} className="text-sm">
+                  <div className="text-gray-900 mb-1">
+                    <span className="text-xs text-gray-500 mr-2">#{item.index + 1}</span>
+                    {item.title || 'Untitled item'}
+                  </div>
+                  <ul className="space-y-1">
+                    {item.links
+                      .filter((link) => (link.result && !link.result.ok) || link.mismatches.length > 0)
+                      .map((link) => (
+                        <li key={link.url} className="pl-6">
+                          <div className="flex items-center gap-2">
+                            <span className="px-2 py-0.5 bg-white text-gray-700 rounded text-xs border border-gray-200">
+                              {LINK_KIND_LABELS[link.kind]}
+                            </span>
+                            <span
+                              className={`text-xs font-medium ${link.result && !link.result.ok ? 'text-red-600' : 'text-orange-600'}`}
+                            >
+                              {link.result?.status ? `HTTP ${link.result.status}` : link.result?.errorCode}
+                            </span>
+                            <span className="font-mono text-xs text-gray-600 truncate">{link.url}</span>
+                          </div>
+                          {link.result?.error && <p className="text-xs text-red-600">{link.result.error}</p>}
+                          {link.result && link.result.redirects.length > 0 && (
+                            <p className="text-xs text-gray-500">
+                              {link.result.redirects.length} redirect{link.result.redirects.length > 1 ? 's' : ''} to{' '}
+                              <span className="font-mono break-all">{link.result.finalUrl}</span>
+                            </p>
+                          )}
+                          {link.mismatches.map((mismatch) => (
+                            <p key={mismatch} className="text-xs text-orange-700">{mismatch}</p>
+                          ))}
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+const RULE_STATUS_STYLES: Record<ReadinessStatus, string> = {
+  pass: 'bg-success-50 text-success-700',
+  fail: 'bg-red-50 text-red-700',
+  skipped: 'bg-white text-gray-500 border border-gray-200',
+};
+
+// Component to display the word-count distribution and the items that disagree with the feed's content type
+function ContentTypeCard({ classification }: { classification: ContentClassification }) {
+  const { wordCounts } = classification;
+  const largestBucket = wordCounts ? Math.max(...wordCounts.buckets.map((bucket) => bucket.count)) : 0;
+  const outliers = classification.items.filter((item) => item.type !== 'empty' && item.type !== classification.contentType);
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 border border-gray-100 md:col-span-2">
+      <div className="flex items-center gap-2 mb-4">
+        <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Full Article Detection</h3>
+      </div>
+      <p className="text-gray-900 font-light text-lg mb-1">
+        {classification.fullItems} full, {classification.excerptItems} excerpt
+        {classification.emptyItems > 0 && `, ${classification.emptyItems} empty`}
+      </p>
+      <p className="text-sm text-gray-500 mb-4">
+        {classification.fixedLength !== null
+          ? `Most items stop at about ${classification.fixedLength} words, which looks like an automatic excerpt.`
+          : 'Every item is classified from truncation markers, description vs content:encoded, length and structure.'}
+      </p>
+      {wordCounts && (
+        <div className="mb-4">
+          <div className="text-xs text-gray-500 mb-2">
+            Words per item: {wordCounts.min} min, {wordCounts.median} median, {wordCounts.max} max
+          </div>
+          <div className="space-y-1">
+            {wordCounts.buckets.map((bucket) => (
+              <div key={bucket.label} className="flex items-center gap-3 text-xs">
+                <span className="w-20 text-gray-600 text-right">{bucket.label}</span>
+                <div className="flex-1 h-3 bg-white rounded border border-gray-200 overflow-hidden">
+                  <div
+                    className="h-full bg-primary-500"
+                    style={{ width: `${largestBucket > 0 ? (bucket.count / largestBucket) * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="w-8 text-gray-600">{bucket.count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {outliers.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+            Classified as {classification.contentType === 'full' ? 'excerpt' : 'full'}
+          </div>
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {outliers.map((item) => (
+              <li key={item.index} className="text-sm">
+                <div className="text-gray-900">
+                  <span className="text-xs text-gray-500 mr-2">#{item.index + 1}</span>
+                  {item.title || 'Untitled item'}
+                  <span className="text-xs text-gray-500 ml-2">{item.confidence}%</span>
+                </div>
+                <p className="text-xs text-gray-500 pl-6">{item.signals.join(' · ')}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Component to display the overall import readiness score for the chosen profile
+function ReadinessCard({ analysis, profileId, onProfileChange }: {
+  analysis: FeedAnalysis;
+  profileId: string;
+  onProfileChange: (profileId: string) => void;
+}) {
+  const profile = getReadinessProfile(profileId) || READINESS_PROFILES[0];
+  const readiness = scoreReadiness(analysis, profile);
+
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 border border-gray-100 md:col-span-2">
+      <div className="flex items-center gap-2 mb-4">
+        <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Import Readiness</h3>
+        <select
+          value={profile.id}
+          onChange={(e) => onProfileChange(e.target.value)}
+          className="ml-auto bg-white border border-gray-200 text-gray-700 text-sm rounded-lg py-1.5 px-3 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        >
+          {READINESS_PROFILES.map((option) => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-baseline gap-3 mb-1">
+        <span className={`text-4xl font-light ${readiness.passed ? 'text-success-700' : readiness.score >= 50 ? 'text-orange-600' : 'text-red-600'}`}>
+          {readiness.score}
+        </span>
+        <span className="text-sm text-gray-500">/ 100</span>
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${readiness.passed ? 'bg-success-50 text-success-700' : 'bg-red-50 text-red-700'}`}>
+          {readiness.passed ? 'Ready' : 'Not ready'}
+        </span>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">{profile.description}</p>
+      <ul className="grid gap-2 md:grid-cols-2">
+        {readiness.rules.map((rule) => (
+          <li key={rule.id} className="flex items-start gap-2 text-sm">
+            <span className={`flex-shrink-0 px-2 py-0.5 rounded text-xs font-medium ${RULE_STATUS_STYLES[rule.status]}`}>
+              {rule.status === 'pass' ? 'Pass' : rule.status === 'fail' ? 'Fail' : 'Skipped'}
+            </span>
+            <div>
+              <p className="text-gray-900">{rule.label}</p>
+              <p className="text-xs text-gray-500">{rule.detail}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Component to render one item's sanitized body next to what the sanitizer removed
+function ContentPreviewCard({ previews, totalItems }: { previews: ContentPreview[]; totalItems: number }) {
+  const [selected, setSelected] = useState(0);
+  const preview = previews[Math.min(selected, previews.length - 1)];
+  const unresolved = preview.relativeUrls.filter((entry) => entry.resolved === null);
+
+  return (
+    <div className="mt-6 bg-gray-50 rounded-xl p-6 border border-gray-100">
+      <div className="flex items-center gap-2 mb-4">
+        <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Content Preview</h3>
+        <select
+          value={preview.index}
+          onChange={(e) => setSelected(Number(e.target.value))}
+          className="ml-auto max-w-xs bg-white border border-gray-200 text-gray-700 text-sm rounded-lg py-1.5 px-3 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        >
+          {previews.map((item) => (
+            <option key={item.index} value={item.index}>#{item.index + 1} {item.title || 'Untitled item'}</option>
+          ))}
+        </select>
+      </div>
+      {totalItems > previews.length && (
+        <p className="text-sm text-gray-500 mb-4">Showing the first {previews.length} of {totalItems} items.</p>
+      )}
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <div className="text-xs text-gray-500 mb-2">
+            {preview.source ? <>From <span className="font-mono">{preview.source}</span>, sanitized</> : 'This item has no body'}
+          </div>
+          <div
+            className="bg-white border border-gray-200 rounded-lg p-6 max-h-[32rem] overflow-y-auto text-sm text-gray-800 leading-relaxed break-words [&_p]:mb-3 [&_img]:max-w-full [&_img]:h-auto [&_img]:my-3 [&_a]:text-primary-600 [&_a]:underline [&_h1]:text-xl [&_h2]:text-lg [&_h3]:font-medium [&_ul]:list-disc [&_ul]:pl-6 [&_ol]:list-decimal [&_ol]:pl-6 [&_blockquote]:border-l-4 [&_blockquote]:border-gray-200 [&_blockquote]:pl-4 [&_pre]:overflow-x-auto [&_video]:max-w-full"
+            dangerouslySetInnerHTML={{ __html: preview.html }}
           />
+        </div>
+        <div className="space-y-4 text-sm">
+          <div>
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Removed</div>
+            {preview.removed.length === 0 ? (
+              <p className="text-gray-500">Nothing</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {preview.removed.map((entry) => (
+                  <span key={entry.what} className="px-2 py-0.5 bg-orange-50 text-orange-700 rounded text-xs">
+                    {entry.what}{entry.count > 1 && ` × ${entry.count}`}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          {preview.trackingPixels.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Tracking Pixels</div>
+              <ul className="space-y-1">
+                {preview.trackingPixels.map((url) => (
+                  <li key={url} className="font-mono text-xs text-gray-600 break-all">{url}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {preview.relativeUrls.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Relative URLs</div>
+              {unresolved.length > 0 && (
+                <p className="text-xs text-red-600 mb-1">
+                  {unresolved.length} cannot be resolved because the item has no absolute link
+                </p>
+              )}
+              <ul className="space-y-1">
+                {preview.relativeUrls.map((entry) => (
+                  <li key={entry.url} className="text-xs break-all">
+                    <span className={`font-mono ${entry.resolved ? 'text-gray-600' : 'text-red-600'}`}>{entry.url}</span>
+                    {entry.resolved && <span className="text-gray-400"> → {entry.resolved}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {preview.media.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Embedded Media</div>
+              <ul className="space-y-1">
+                {preview.media.map((item, index) => (
+                  <li key={index} className="flex items-center gap-2 text-xs">
+                    <span className={`px-2 py-0.5 rounded ${item.kept ? 'bg-white text-gray-700 border border-gray-200' : 'bg-red-50 text-red-700'}`}>
+                      {item.kind}{!item.kept && ' (removed)'}
+                    </span>
+                    <span className="font-mono text-gray-600 truncate">{item.url}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Checkbox to request the podcast readiness report for feeds not detected as podcasts
+function PodcastModeToggle({ checked, onChange, disabled }: { checked: boolean; onChange: (checked: boolean) => void; disabled: boolean }) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={disabled}
+        className="rounded border-gray-300 text-primary-500 focus:ring-primary-500"
+      />
+      Podcast mode
+    </label>
+  );
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function formatHours(hours: number): string {
+  return hours < 48 ? `${hours} h` : `${Math.round(hours / 24)} days`;
+}
+
+function formatMinutes(minutes: number): string {
+  return minutes < 60 ? `${minutes} min` : formatHours(Math.round(minutes / 6) / 10);
+}
+
+// Component to draw one posting histogram as a row of bars, labelling every `tickEvery`th bar
+function Histogram({ counts, labels, tickEvery = 1 }: { counts: number[]; labels: string[]; tickEvery?: number }) {
+  const max = Math.max(1, ...counts);
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-20">
+        {counts.map((count, idx) => (
+          <div key={idx} className="flex-1 h-full flex items-end" title={`${labels[idx]}: ${count} post${count === 1 ? '' : 's'}`}>
+            <div className="w-full bg-primary-400 rounded-t" style={{ height: `${(count / max) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-0.5 mt-1">
+        {labels.map((label, idx) => (
+          <div key={idx} className="flex-1 text-center text-[10px] text-gray-400">{idx % tickEvery === 0 ? label : ''}</div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Component to show the publishing rhythm and the polling interval it suggests
+function CadenceCard({ cadence, postFrequency }: { cadence: CadenceReport; postFrequency?: string | null }) {
+  const { gaps, polling } = cadence;
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 border border-gray-100 md:col-span-2">
+      <div className="flex items-center gap-2 mb-4">
+        <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Publishing Cadence</h3>
+        {cadence.overdue && (
+          <span className="ml-auto px-2.5 py-1 rounded text-xs font-medium bg-orange-50 text-orange-700">Overdue</span>
         )}
       </div>
-      {dimensions && (
-        <div className="text-sm text-gray-600">
-          {dimensions.width} × {dimensions.height}px
+      {postFrequency && <p className="text-gray-900 font-light text-lg mb-1">{postFrequency}</p>}
+      <p className="text-sm text-gray-500 mb-4">
+        From the gaps between {cadence.datedItems} dated item{cadence.datedItems === 1 ? '' : 's'}; the median is not skewed by one old item.
+      </p>
+      {gaps && (
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-4 text-sm">
+          {([
+            ['Median gap', gaps.medianHours],
+            ['25th percentile', gaps.p25Hours],
+            ['75th percentile', gaps.p75Hours],
+            ['90th percentile', gaps.p90Hours],
+            ['Longest gap', gaps.longestHours],
+          ] as Array<[string, number]>).map(([label, hours]) => (
+            <div key={label} className="bg-white rounded-lg border border-gray-200 px-3 py-2">
+              <div className="text-xs text-gray-500">{label}</div>
+              <div className="text-gray-900">{formatHours(hours)}</div>
+            </div>
+          ))}
         </div>
       )}
-      {error && (
-        <div className="text-sm text-orange-600">{error}</div>
+      <div className="space-y-1 text-sm text-gray-600 mb-4">
+        {gaps && (
+          <div>
+            Longest gap: <LocalDateTime value={gaps.longestFrom} /> → <LocalDateTime value={gaps.longestTo} />
+          </div>
+        )}
+        {cadence.nextExpected && (
+          <div>
+            Next post expected around <LocalDateTime value={cadence.nextExpected} />
+            {cadence.overdue && <span className="text-orange-600"> · no post for longer than the longest gap so far</span>}
+          </div>
+        )}
+        {polling && (
+          <div>
+            Poll every <span className="font-medium text-gray-900">{formatMinutes(polling.intervalMinutes)}</span>
+            <span className="text-gray-500"> · {polling.reason}</span>
+          </div>
+        )}
+      </div>
+      {cadence.datedItems > 0 && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <div>
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Day of week (UTC)</div>
+            <Histogram counts={cadence.weekdays} labels={WEEKDAY_LABELS} />
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Hour of day (UTC)</div>
+            <Histogram counts={cadence.hours} labels={cadence.hours.map((_, hour) => `${hour}:00`)} tickEvery={6} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Terms listed per namespace before the rest are summarised
+const MAX_NAMESPACE_TERMS = 6;
+
+// Component to list every declared or used XML namespace with its elements and example values
+function NamespacesCard({ inventory }: { inventory: NamespaceInventory }) {
+  const hasProblems = inventory.diagnostics.length > 0;
+  return (
+    <div className={`rounded-xl p-6 border md:col-span-2 ${hasProblems ? 'bg-orange-50 border-orange-100' : 'bg-gray-50 border-gray-100'}`}>
+      <div className="flex items-center gap-2 mb-4">
+        <svg className={`w-4 h-4 ${hasProblems ? 'text-orange-500' : 'text-gray-500'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Namespaces &amp; Extensions</h3>
+        <span className="ml-auto text-sm text-gray-500">{inventory.namespaces.length} namespace{inventory.namespaces.length === 1 ? '' : 's'}</span>
+      </div>
+      {inventory.namespaces.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">The feed uses no XML namespaces.</p>
+      ) : (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+                <th className="pb-2 pr-4 font-medium">Namespace</th>
+                <th className="pb-2 pr-4 font-medium">Uses</th>
+                <th className="pb-2 font-medium">Elements and attributes</th>
+              </tr>
+            </thead>
+            <tbody className="align-top">
+              {inventory.namespaces.map((namespace) => (
+                <tr key={namespace.uri || `prefix:${namespace.prefixes.join(',')}`} className="border-t border-gray-200">
+                  <td className="py-2 pr-4">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <span className="font-mono text-xs text-gray-900">
+                        {namespace.prefixes.map((prefix) => prefix || '(default)').join(', ') || '–'}
+                      </span>
+                      {namespace.name && <span className="text-gray-600">{namespace.name}</span>}
+                      {!namespace.declared && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-red-50 text-red-700">Not declared</span>
+                      )}
+                      {namespace.declared && namespace.elementCount + namespace.attributeCount === 0 && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">Unused</span>
+                      )}
+                    </div>
+                    {namespace.uri && <div className="font-mono text-xs text-gray-500 break-all">{namespace.uri}</div>}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700 whitespace-nowrap">
+                    {namespace.elementCount + namespace.attributeCount}
+                  </td>
+                  <td className="py-2">
+                    <ul className="space-y-0.5">
+                      {namespace.terms.slice(0, MAX_NAMESPACE_TERMS).map((term) => (
+                        <li key={term.name} className="text-gray-700">
+                          <span className="font-mono text-xs">{term.name}</span>
+                          <span className="text-gray-500"> ×{term.count}</span>
+                          {term.example && <span className="text-gray-500 break-all"> · {term.example}</span>}
+                        </li>
+                      ))}
+                      {namespace.terms.length > MAX_NAMESPACE_TERMS && (
+                        <li className="text-gray-500">and {namespace.terms.length - MAX_NAMESPACE_TERMS} more</li>
+                      )}
+                    </ul>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {hasProblems && <DiagnosticList diagnostics={inventory.diagnostics} />}
+    </div>
+  );
+}
+
+const DATE_ORDER_LABELS: Record<NonNullable<DateAudit['order']>, string> = {
+  'newest-first': 'Newest first',
+  'oldest-first': 'Oldest first',
+  unordered: 'Out of order',
+};
+
+// Component to show how the feed writes its dates and whether items are in order
+function DateAuditCard({ audit }: { audit: DateAudit }) {
+  const hasProblems = audit.diagnostics.length > 0;
+  return (
+    <div className={`rounded-xl p-6 border ${hasProblems ? 'bg-orange-50 border-orange-100 md:col-span-2' : 'bg-gray-50 border-gray-100'}`}>
+      <div className="flex items-center gap-2 mb-4">
+        <svg className={`w-4 h-4 ${hasProblems ? 'text-orange-500' : 'text-gray-500'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Dates</h3>
+        {audit.order && (
+          <span
+            className={`ml-auto px-2.5 py-1 rounded text-xs font-medium ${
+              audit.order === 'unordered' ? 'bg-orange-50 text-orange-700' : 'bg-success-50 text-success-700'
+            }`}
+          >
+            {DATE_ORDER_LABELS[audit.order]}
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        {audit.checked} date{audit.checked === 1 ? '' : 's'} checked
+        {audit.outOfOrder > 0 && <> · {audit.outOfOrder} item{audit.outOfOrder === 1 ? '' : 's'} out of order</>}
+      </p>
+      {hasProblems ? (
+        <DiagnosticList diagnostics={audit.diagnostics} />
+      ) : (
+        <p className="text-sm text-gray-500">
+          {audit.checked > 0 ? 'Every date is in the format its element requires, with a timezone.' : 'The feed has no dates.'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Component to show podcast-directory readiness with the problems to fix
+function PodcastCard({ podcast }: { podcast: PodcastReport }) {
+  const errorCount = podcast.diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+  return (
+    <div className="bg-gray-50 rounded-xl p-6 border border-gray-100 md:col-span-2">
+      <div className="flex items-center gap-2 mb-4">
+        <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+        </svg>
+        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Podcast Directory Readiness</h3>
+        <span
+          className={`ml-auto px-2.5 py-1 rounded text-xs font-medium ${
+            podcast.ready ? 'bg-success-50 text-success-700' : 'bg-red-50 text-red-700'
+          }`}
+        >
+          {podcast.ready ? 'Ready' : `${errorCount} problem${errorCount > 1 ? 's' : ''} to fix`}
+        </span>
+      </div>
+      {!podcast.detected && (
+        <p className="text-sm text-orange-600 mb-3">This feed has no iTunes tags or audio/video enclosures, so it is not recognised as a podcast.</p>
+      )}
+      <div className="flex gap-4 mb-4">
+        {podcast.artworkUrl && (
+          <img src={podcast.artworkUrl} alt="Show artwork" className="w-20 h-20 rounded-lg object-cover bg-white border border-gray-200" />
+        )}
+        <div className="space-y-1 text-sm text-gray-600">
+          <div>
+            {podcast.mediaEpisodeCount}/{podcast.episodeCount} episodes with audio or video
+          </div>
+          {podcast.artwork && (
+            <div>
+              Artwork: {podcast.artwork.width} × {podcast.artwork.height}px {podcast.artwork.format.toUpperCase()}
+            </div>
+          )}
+          <div>
+            Explicit: {podcast.explicit ? <span className="font-mono text-xs">{podcast.explicit}</span> : <span className="text-gray-400">not set</span>}
+          </div>
+          <div>
+            Categories: {podcast.categories.length > 0 ? podcast.categories.join(', ') : <span className="text-gray-400">none</span>}
+          </div>
+          {podcast.podcastTags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 pt-1">
+              {podcast.podcastTags.map((tag) => (
+                <span key={tag} className="px-2 py-0.5 bg-white text-gray-700 rounded text-xs font-mono border border-gray-200">
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      {podcast.diagnostics.length > 0 ? (
+        <DiagnosticList diagnostics={podcast.diagnostics} />
+      ) : (
+        <p className="text-sm text-gray-500">All iTunes, Podcasting 2.0 and enclosure checks passed.</p>
       )}
     </div>
   );
@@ -74,15 +930,45 @@ function ImageWithDimensions({ url }: { url: string }) {
 
 export default function Home() {
   const [url, setUrl] = useState('');
+  const [inputMode, setInputMode] = useState<InputMode>('url');
+  const [content, setContent] = useState('');
+  // The uploaded file's bytes until the text is edited; the textarea only shows a UTF-8 reading of it
+  const [upload, setUpload] = useState<string | null>(null);
+  const [podcastMode, setPodcastMode] = useState(false);
+  const [profileId, setProfileId] = useState(READINESS_PROFILES[0].id);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<FeedAnalysis | null>(null);
+  const [lastInput, setLastInput] = useState<AnalyzeInput | null>(null);
   const [hasShownResult, setHasShownResult] = useState(false);
 
+  const canSubmit = inputMode === 'url' ? url.trim() !== '' : content.trim() !== '';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!url.trim()) return;
+    if (!canSubmit) return;
+    await analyze(inputMode === 'url' ? { url } : upload !== null ? { contentBase64: upload } : { content });
+  };
+
+  const handleContentChange = (value: string) => {
+    setContent(value);
+    setUpload(null);
+  };
+
+  const handleUpload = async (file: File) => {
+    const [text, base64] = await Promise.all([file.text(), readFileAsBase64(file)]);
+    setContent(text);
+    setUpload(base64);
+  };
+
+  const analyzeUrl = async (feedUrl: string) => {
+    setInputMode('url');
+    setUrl(feedUrl);
+    await analyze({ url: feedUrl });
+  };
 
+  const analyze = async (input: AnalyzeInput, checkLinks = false) => {
     setLoading(true);
+    setLastInput(input);
     // Don't clear result immediately - keep showing previous result while loading
     // setResult(null);
 
@@ -92,11 +978,22 @@ export default function Home() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url }),
+        body: JSON.stringify({ ...input, ...(podcastMode ? { mode: 'podcast' } : {}), ...(checkLinks ? { checkLinks } : {}) }),
       });
 
+      // Failed analyses come back with an error status but the same body; rejected requests only carry a message
       const analysis = await response.json();
-      setResult(analysis);
+      setResult(
+        typeof analysis.isValid === 'boolean'
+          ? analysis
+          : {
+              isValid: false,
+              availableFields: [],
+              hasFeaturedImage: false,
+              contentType: 'unknown',
+              error: analysis.error || 'An unexpected error occurred',
+            }
+      );
       setHasShownResult(true);
     } catch (error) {
       setResult({
@@ -122,32 +1019,38 @@ export default function Home() {
               RSS Feed Analyzer
             </h1>
             <p className="text-gray-500 text-lg font-light">
-              Validate and analyze any RSS feed URL
+              Validate and analyze any RSS feed URL or pasted feed
             </p>
           </div>
 
           <div className="bg-white rounded-xl p-8 mb-8 border border-gray-100 max-w-2xl mx-auto">
             <form onSubmit={handleSubmit} className="space-y-6">
-              <div>
-                <label
-                  htmlFor="feed-url"
-                  className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide"
-                >
-                  RSS Feed URL
-                </label>
-                <input
-                  id="feed-url"
-                  type="url"
-                  value={url}
-                  onChange={(e) => setUrl(e.target.value)}
-                  placeholder="https://example.com/feed.xml"
-                  className="w-full px-4 py-3.5 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none transition-all text-gray-900 placeholder-gray-400"
-                  disabled={loading}
-                />
-              </div>
+              <InputModeTabs mode={inputMode} onChange={setInputMode} disabled={loading} />
+              {inputMode === 'url' ? (
+                <div>
+                  <label
+                    htmlFor="feed-url"
+                    className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide"
+                  >
+                    RSS Feed URL
+                  </label>
+                  <input
+                    id="feed-url"
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="https://example.com/feed.xml"
+                    className="w-full px-4 py-3.5 border-0 bg-gray-50 rounded-lg focus:ring-2 focus:ring-primary-500 focus:bg-white outline-none transition-all text-gray-900 placeholder-gray-400"
+                    disabled={loading}
+                  />
+                </div>
+              ) : (
+                <FeedContentInput id="feed-content" content={content} onChange={handleContentChange} onUpload={handleUpload} disabled={loading} />
+              )}
+              <PodcastModeToggle checked={podcastMode} onChange={setPodcastMode} disabled={loading} />
               <button
                 type="submit"
-                disabled={loading || !url.trim()}
+                disabled={loading || !canSubmit}
                 className="w-full bg-primary-500 text-white font-medium py-3.5 px-6 rounded-lg hover:bg-primary-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
               >
                 {loading ? (
@@ -180,6 +1083,30 @@ export default function Home() {
               </button>
             </form>
           </div>
+          <p className="text-center text-sm text-gray-500">
+            Checking many feeds?{' '}
+            <Link href="/batch" className="text-primary-600 hover:text-primary-700">
+              Analyze a list or OPML file
+            </Link>
+          </p>
+          <p className="text-center text-sm text-gray-500 mt-2">
+            Watching partner feeds?{' '}
+            <Link href="/monitors" className="text-primary-600 hover:text-primary-700">
+              Monitor feeds on a schedule
+            </Link>
+          </p>
+          <p className="text-center text-sm text-gray-500 mt-2">
+            Publisher says nothing changed?{' '}
+            <Link href="/diff" className="text-primary-600 hover:text-primary-700">
+              Compare two versions of a feed
+            </Link>
+          </p>
+          <p className="text-center text-sm text-gray-500 mt-2">
+            Setting up an import?{' '}
+            <Link href="/mapping" className="text-primary-600 hover:text-primary-700">
+              Map feed fields and preview records
+            </Link>
+          </p>
         </div>
       ) : (
         // Split layout after result
@@ -195,26 +1122,39 @@ export default function Home() {
               </p>
             </div>
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <label
-                  htmlFor="feed-url-sidebar"
-                  className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide"
-                >
-                  RSS Feed URL
-                </label>
-                <input
-                  id="feed-url-sidebar"
-                  type="url"
-                  value={url}
-                  onChange={(e) => setUrl(e.target.value)}
-                  placeholder="https://example.com/feed.xml"
-                  className="w-full px-4 py-3 border-0 bg-white rounded-lg focus:ring-2 focus:ring-primary-500 outline-none transition-all text-gray-900 placeholder-gray-400 text-sm"
+              <InputModeTabs mode={inputMode} onChange={setInputMode} disabled={loading} />
+              {inputMode === 'url' ? (
+                <div>
+                  <label
+                    htmlFor="feed-url-sidebar"
+                    className="block text-xs font-medium text-gray-500 mb-2 uppercase tracking-wide"
+                  >
+                    RSS Feed URL
+                  </label>
+                  <input
+                    id="feed-url-sidebar"
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="https://example.com/feed.xml"
+                    className="w-full px-4 py-3 border-0 bg-white rounded-lg focus:ring-2 focus:ring-primary-500 outline-none transition-all text-gray-900 placeholder-gray-400 text-sm"
+                    disabled={loading}
+                  />
+                </div>
+              ) : (
+                <FeedContentInput
+                  id="feed-content-sidebar"
+                  content={content}
+                  onChange={handleContentChange}
+                  onUpload={handleUpload}
                   disabled={loading}
+                  compact
                 />
-              </div>
+              )}
+              <PodcastModeToggle checked={podcastMode} onChange={setPodcastMode} disabled={loading} />
               <button
                 type="submit"
-                disabled={loading || !url.trim()}
+                disabled={loading || !canSubmit}
                 className="w-full bg-primary-500 text-white font-medium py-3 px-4 rounded-lg hover:bg-primary-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors text-sm"
               >
                 {loading ? (
@@ -339,7 +1279,7 @@ export default function Home() {
                         Last Update
                       </div>
                       <div className="text-lg text-gray-900 font-light">
-                        {result.lastUpdate}
+                        <LocalDateTime value={result.lastUpdate} />
                       </div>
                     </div>
                   )}
@@ -372,6 +1312,9 @@ export default function Home() {
                         ? 'Excerpt'
                         : 'Unknown'}
                     </div>
+                    {result.contentClassification && result.contentType !== 'unknown' && (
+                      <div className="text-xs text-gray-500">{result.contentClassification.confidence}% confidence</div>
+                    )}
                   </div>
 
                   {/* Available Fields */}
@@ -397,6 +1340,13 @@ export default function Home() {
 
                 {/* Additional Analysis Sections */}
                 <div className="mt-12 grid gap-6 md:grid-cols-2">
+                  <ReadinessCard analysis={result} profileId={profileId} onProfileChange={setProfileId} />
+
+                  {/* Full vs Excerpt Detection */}
+                  {result.contentClassification && result.contentClassification.contentType !== 'unknown' && (
+                    <ContentTypeCard classification={result.contentClassification} />
+                  )}
+
                   {/* Feed Type Detection */}
                   {result.feedType && (
                     <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
@@ -411,8 +1361,10 @@ export default function Home() {
                     </div>
                   )}
 
-                  {/* Post Frequency Estimation */}
-                  {result.postFrequency && (
+                  {/* Publishing Cadence */}
+                  {result.cadence ? (
+                    <CadenceCard cadence={result.cadence} postFrequency={result.postFrequency} />
+                  ) : result.postFrequency && (
                     <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
                       <div className="flex items-center gap-2 mb-4">
                         <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -455,7 +1407,37 @@ export default function Home() {
                           </span>
                         ))}
                       </div>
-                      <p className="text-sm text-gray-600">These fields are missing and may cause incomplete imports.</p>
+                      <p className="text-sm text-gray-600">These fields are missing from at least one item and may cause incomplete imports.</p>
+                    </div>
+                  )}
+
+                  {/* Field Coverage */}
+                  {result.fieldCoverage && result.fieldCoverage.length > 0 && (
+                    <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+                      <div className="flex items-center gap-2 mb-4">
+                        <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                        </svg>
+                        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Field Coverage</h3>
+                      </div>
+                      <div className="space-y-2">
+                        {result.fieldCoverage.map((coverage) => (
+                          <div key={coverage.field} className="text-sm">
+                            <div className="flex items-center justify-between mb-1">
+                              <span className="font-mono text-xs text-gray-700">{coverage.field}</span>
+                              <span className={coverage.present < coverage.total ? 'text-orange-600' : 'text-gray-500'}>
+                                {coverage.present}/{coverage.total} items
+                              </span>
+                            </div>
+                            <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                              <div
+                                className={`h-full rounded-full ${coverage.present < coverage.total ? 'bg-orange-400' : 'bg-success-500'}`}
+                                style={{ width: `${(coverage.present / coverage.total) * 100}%` }}
+                              />
+                            </div>
+                          </div>
+                        ))}
+                      </div>
                     </div>
                   )}
 
@@ -506,23 +1488,150 @@ export default function Home() {
                     </div>
                   )}
 
-                  {/* Image Resolution Check */}
-                  {result.imageResolutions && result.imageResolutions.length > 0 && (
+                  {/* Validation Warnings */}
+                  {result.validationErrors && result.validationErrors.length > 0 && (
+                    <div className="bg-orange-50 rounded-xl p-6 border border-orange-100 md:col-span-2">
+                      <div className="flex items-center gap-2 mb-4">
+                        <svg className="w-4 h-4 text-orange-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                        </svg>
+                        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Validation Warnings</h3>
+                      </div>
+                      <DiagnosticList diagnostics={result.validationErrors} />
+                    </div>
+                  )}
+
+                  {/* Fetch Details */}
+                  {result.fetchInfo && (
                     <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
                       <div className="flex items-center gap-2 mb-4">
                         <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                         </svg>
-                        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Image Resolution Check</h3>
+                        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Fetch Details</h3>
                       </div>
-                      <div className="grid gap-4 md:grid-cols-2">
-                        {result.imageResolutions.map((img, idx) => (
-                          <ImageWithDimensions key={idx} url={img.url} />
+                      <p className="text-gray-900 font-light text-lg mb-1">
+                        HTTP {result.fetchInfo.status} in {result.fetchInfo.timing.total} ms
+                      </p>
+                      <div className="space-y-1 text-sm text-gray-600 mb-2">
+                        <div>
+                          DNS {result.fetchInfo.timing.dns ?? '–'} ms · Connect {result.fetchInfo.timing.connect ?? '–'} ms
+                          {result.fetchInfo.timing.tls !== null && <> · TLS {result.fetchInfo.timing.tls} ms</>} · TTFB {result.fetchInfo.timing.ttfb} ms
+                        </div>
+                        <div>
+                          {(result.fetchInfo.byteLength / 1024).toFixed(1)} KB
+                          {result.fetchInfo.contentType && <> · <span className="font-mono text-xs">{result.fetchInfo.contentType}</span></>}
+                        </div>
+                        {result.fetchInfo.redirects.map((hop, idx) => (
+                          <div key={idx} className="font-mono text-xs text-gray-500 break-all">
+                            {hop.status} → {hop.location}
+                          </div>
                         ))}
                       </div>
+                      <p className="text-sm text-gray-500">The feed is downloaded once and the same bytes are validated and parsed.</p>
                     </div>
                   )}
+
+                  {/* Namespaces & Extensions */}
+                  {result.namespaces && <NamespacesCard inventory={result.namespaces} />}
+
+                  {/* Date Audit */}
+                  {result.dateAudit && <DateAuditCard audit={result.dateAudit} />}
+
+                  {/* Podcast Directory Readiness */}
+                  {result.podcast && <PodcastCard podcast={result.podcast} />}
+
+                  {/* Character Encoding */}
+                  {result.encoding && <EncodingCard encoding={result.encoding} />}
+
+                  {/* Polite Polling */}
+                  {result.caching && (
+                    <div className={`rounded-xl p-6 border ${result.caching.requiresFullDownload ? 'bg-orange-50 border-orange-100' : 'bg-gray-50 border-gray-100'}`}>
+                      <div className="flex items-center gap-2 mb-4">
+                        <svg className={`w-4 h-4 ${result.caching.requiresFullDownload ? 'text-orange-500' : 'text-gray-500'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                        </svg>
+                        <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Polite Polling</h3>
+                      </div>
+                      <p className={`font-light text-lg mb-1 ${result.caching.requiresFullDownload ? 'text-orange-600' : 'text-gray-900'}`}>
+                        {result.caching.conditional?.notModified
+                          ? 'Conditional requests return 304 Not Modified'
+                          : 'Every poll downloads the full feed'}
+                      </p>
+                      <div className="space-y-1 text-sm text-gray-600 mb-2">
+                        {[
+                          ['ETag', result.caching.etag],
+                          ['Last-Modified', result.caching.lastModified],
+                          ['Cache-Control', result.caching.cacheControl],
+                          ['Expires', result.caching.expires],
+                        ].map(([name, value]) => (
+                          <div key={name}>
+                            {name}: {value ? <span className="font-mono text-xs break-all">{value}</span> : <span className="text-gray-400">not sent</span>}
+                          </div>
+                        ))}
+                        {result.caching.conditional && (
+                          <div>
+                            Conditional GET:{' '}
+                            {result.caching.conditional.error
+                              ? <span className="text-red-600">{result.caching.conditional.error}</span>
+                              : <>HTTP {result.caching.conditional.status}, {((result.caching.conditional.byteLength ?? 0) / 1024).toFixed(1)} KB</>}
+                          </div>
+                        )}
+                        {(result.caching.hints.ttlMinutes !== null || result.caching.hints.updatePeriod) && (
+                          <div>
+                            Feed hints:
+                            {result.caching.hints.ttlMinutes !== null && <> <span className="font-mono text-xs">ttl</span> {result.caching.hints.ttlMinutes} min</>}
+                            {result.caching.hints.updatePeriod && (
+                              <> <span className="font-mono text-xs">sy:updatePeriod</span> {result.caching.hints.updatePeriod}
+                                {result.caching.hints.updateFrequency !== null && <> × {result.caching.hints.updateFrequency}</>}</>
+                            )}
+                            {result.caching.hints.suggestedIntervalMinutes !== null && (
+                              <> · poll every {result.caching.hints.suggestedIntervalMinutes} min</>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                      {result.caching.warnings.length > 0 && (
+                        <ul className="list-disc list-inside space-y-1 text-sm text-orange-700 mb-2">
+                          {result.caching.warnings.map((warning, idx) => (
+                            <li key={idx}>{warning}</li>
+                          ))}
+                        </ul>
+                      )}
+                      <p className="text-sm text-gray-500">Feeds that answer 304 cost almost no bandwidth to poll.</p>
+                    </div>
+                  )}
+
+                  {/* Link Check */}
+                  <LinksCard
+                    links={result.links}
+                    loading={loading}
+                    onCheck={() => lastInput && analyze(lastInput, true)}
+                  />
+
+                  {/* Image Resolution Check */}
+                  {result.imageResolutions && result.imageResolutions.probed > 0 && (
+                    <ImagesCard report={result.imageResolutions} />
+                  )}
                 </div>
+
+                {/* Per-item Breakdown */}
+                {result.items && result.items.length > 0 && (
+                  <div className="mt-12 bg-gray-50 rounded-xl p-6 border border-gray-100">
+                    <div className="flex items-center gap-2 mb-4">
+                      <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
+                      </svg>
+                      <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide">Items</h3>
+                    </div>
+                    <ItemTable items={result.items} duplicateGuids={result.duplicateGuids} />
+                  </div>
+                )}
+
+                {/* Sanitized Content Preview */}
+                {result.contentPreviews && result.contentPreviews.length > 0 && (
+                  <ContentPreviewCard previews={result.contentPreviews} totalItems={result.itemCount ?? result.contentPreviews.length} />
+                )}
               </div>
             ) : result ? (
               <div>
@@ -547,8 +1656,53 @@ export default function Home() {
                       Feed is invalid
                     </h2>
                     <p className="text-gray-600">{result.error || 'Unable to parse the RSS feed'}</p>
+                    {result.errorCode && getErrorHint(result.errorCode, result.errorDetails) && (
+                      <div className="mt-4 bg-orange-50 rounded-lg px-4 py-3 border border-orange-100">
+                        <div className="text-xs font-medium text-orange-700 uppercase tracking-wide mb-1 font-mono">
+                          {result.errorCode}
+                        </div>
+                        <p className="text-sm text-gray-700">{getErrorHint(result.errorCode, result.errorDetails)}</p>
+                      </div>
+                    )}
                   </div>
                 </div>
+                {result.discoveredFeeds && result.discoveredFeeds.length > 0 && (
+                  <div className="mt-8 pt-6 border-t border-gray-100">
+                    <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide mb-4">Discovered Feeds</h3>
+                    <ul className="space-y-3">
+                      {result.discoveredFeeds.map((feed) => (
+                        <li key={feed.url} className="flex items-center justify-between gap-4 bg-gray-50 rounded-lg px-4 py-3">
+                          <div className="min-w-0">
+                            <div className="text-gray-900 truncate">{feed.title || feed.url}</div>
+                            <div className="text-xs text-gray-500 font-mono truncate">
+                              {feed.title && <>{feed.url} · </>}
+                              {feed.type || 'unknown type'} · {feed.source === 'link' ? 'linked from page' : 'found at common path'}
+                            </div>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => analyzeUrl(feed.url)}
+                            disabled={loading}
+                            className="flex-shrink-0 bg-primary-500 text-white text-sm font-medium py-2 px-4 rounded-lg hover:bg-primary-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                          >
+                            Analyze
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {result.validationErrors && result.validationErrors.length > 0 && (
+                  <div className="mt-8 pt-6 border-t border-gray-100">
+                    <h3 className="text-sm font-medium text-gray-700 uppercase tracking-wide mb-4">Validation Diagnostics</h3>
+                    <DiagnosticList diagnostics={result.validationErrors} />
+                  </div>
+                )}
+                {result.namespaces && result.namespaces.diagnostics.length > 0 && (
+                  <div className="mt-8">
+                    <NamespacesCard inventory={result.namespaces} />
+                  </div>
+                )}
               </div>
             ) : null}
             </div>
@@ -0,0 +1,171 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { ItemAnalysis } from '@/lib/item-analysis';
+
+type SortKey = 'index' | 'title' | 'fields' | 'contentLength' | 'imageSource' | 'pubDate';
+type IssueFilter = 'all' | 'missing-fields' | 'invalid-date' | 'no-image' | 'duplicate-guid';
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'index', label: '#' },
+  { key: 'title', label: 'Title' },
+  { key: 'fields', label: 'Fields' },
+  { key: 'contentLength', label: 'Length' },
+  { key: 'imageSource', label: 'Image' },
+  { key: 'pubDate', label: 'Date' },
+];
+
+const ISSUE_FILTERS: Array<{ value: IssueFilter; label: string }> = [
+  { value: 'all', label: 'All items' },
+  { value: 'missing-fields', label: 'Missing fields' },
+  { value: 'invalid-date', label: 'Missing or invalid date' },
+  { value: 'no-image', label: 'No image' },
+  { value: 'duplicate-guid', label: 'Duplicate GUID' },
+];
+
+function getSortValue(item: ItemAnalysis, key: SortKey): number | string {
+  switch (key) {
+    case 'index':
+      return item.index;
+    case 'title':
+      return (item.title || '').toLowerCase();
+    case 'fields':
+      return item.fields.length;
+    case 'contentLength':
+      return item.contentLength;
+    case 'imageSource':
+      return item.imageSource || '';
+    case 'pubDate':
+      return item.hasValidDate && item.pubDate ? new Date(item.pubDate).getTime() : 0;
+  }
+}
+
+// Sortable, filterable per-item breakdown of the feed
+export default function ItemTable({
+  items,
+  duplicateGuids = [],
+}: {
+  items: ItemAnalysis[];
+  duplicateGuids?: string[];
+}) {
+  const [sortKey, setSortKey] = useState<SortKey>('index');
+  const [sortAscending, setSortAscending] = useState(true);
+  const [search, setSearch] = useState('');
+  const [issueFilter, setIssueFilter] = useState<IssueFilter>('all');
+
+  const visibleItems = useMemo(() => {
+    const duplicates = new Set(duplicateGuids);
+    const query = search.trim().toLowerCase();
+
+    const filtered = items.filter((item) => {
+      if (query) {
+        const haystack = [item.title, item.link, item.guid].filter(Boolean).join(' ').toLowerCase();
+        if (!haystack.includes(query)) return false;
+      }
+      switch (issueFilter) {
+        case 'missing-fields':
+          return item.missingFields.length > 0;
+        case 'invalid-date':
+          return !item.hasValidDate;
+        case 'no-image':
+          return item.imageSource === null;
+        case 'duplicate-guid':
+          return duplicates.has(item.guid || item.link || '');
+        default:
+          return true;
+      }
+    });
+
+    return filtered.sort((a, b) => {
+      const aValue = getSortValue(a, sortKey);
+      const bValue = getSortValue(b, sortKey);
+      const order = aValue < bValue ? -1 : aValue > bValue ? 1 : a.index - b.index;
+      return sortAscending ? order : -order;
+    });
+  }, [items, duplicateGuids, search, issueFilter, sortKey, sortAscending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row gap-3 mb-4">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Filter by title, link or GUID"
+          className="flex-1 px-3 py-2 border-0 bg-white rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-sm text-gray-900 placeholder-gray-400"
+        />
+        <select
+          value={issueFilter}
+          onChange={(e) => setIssueFilter(e.target.value as IssueFilter)}
+          className="px-3 py-2 border-0 bg-white rounded-lg focus:ring-2 focus:ring-primary-500 outline-none text-sm text-gray-700"
+        >
+          {ISSUE_FILTERS.map((filter) => (
+            <option key={filter.value} value={filter.value}>
+              {filter.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wide border-b border-gray-200">
+              {COLUMNS.map((column) => (
+                <th key={column.key} className="py-2 pr-4 font-medium">
+                  <button type="button" onClick={() => handleSort(column.key)} className="hover:text-gray-900">
+                    {column.label}
+                    {sortKey === column.key && (sortAscending ? ' ↑' : ' ↓')}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleItems.map((item) => (
+              <tr key={item.index} className="border-b border-gray-100 align-top">
+                <td className="py-2 pr-4 text-gray-500">{item.index + 1}</td>
+                <td className="py-2 pr-4 max-w-xs">
+                  <div className="text-gray-900 truncate">{item.title || <span className="text-orange-600">Untitled</span>}</div>
+                  {item.guid && <div className="text-xs text-gray-400 font-mono truncate">{item.guid}</div>}
+                </td>
+                <td className="py-2 pr-4">
+                  <span className="text-gray-700">{item.fields.length}</span>
+                  {item.missingFields.length > 0 && (
+                    <div className="text-xs text-orange-600">missing {item.missingFields.join(', ')}</div>
+                  )}
+                </td>
+                <td className="py-2 pr-4 text-gray-700">{item.contentLength.toLocaleString()}</td>
+                <td className="py-2 pr-4 font-mono text-xs text-gray-700">
+                  {item.imageSource || <span className="text-gray-400">none</span>}
+                </td>
+                <td className="py-2 pr-4 text-xs">
+                  {item.hasValidDate ? (
+                    <span className="text-gray-700">{item.pubDate}</span>
+                  ) : (
+                    <span className="text-orange-600">{item.pubDate ? `Invalid: ${item.pubDate}` : 'Missing'}</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visibleItems.length === 0 && (
+          <p className="text-sm text-gray-500 py-4">No items match the current filter.</p>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mt-2">
+        Showing {visibleItems.length} of {items.length} items
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+// ISO 8601 timestamp in the viewer's locale and timezone; other strings, e.g. from older snapshots, are shown as stored
+export default function LocalDateTime({ value }: { value: string }) {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return <>{value}</>;
+  return (
+    <time dateTime={date.toISOString()} title={date.toISOString()}>
+      {date.toLocaleString(undefined, {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+        timeZoneName: 'short',
+      })}
+    </time>
+  );
+}
@@ -0,0 +1,33 @@
+import type { MonitorStatus } from '@/lib/monitor';
+
+// Valid/invalid badge plus a stale marker when no new item appeared for a while
+export default function MonitorStatusBadges({ status }: { status: MonitorStatus }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {status.isValid === null ? (
+        <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">Pending</span>
+      ) : (
+        <span
+          className={`px-2 py-0.5 rounded text-xs font-medium ${
+            status.isValid ? 'bg-success-50 text-success-700' : 'bg-red-50 text-red-700'
+          }`}
+        >
+          {status.isValid ? 'Valid' : 'Invalid'}
+        </span>
+      )}
+      {status.isStale && (
+        <span className="px-2 py-0.5 rounded text-xs font-medium bg-orange-50 text-orange-700">Stale</span>
+      )}
+    </div>
+  );
+}
+
+export function formatUptime(status: MonitorStatus): string {
+  return status.uptime === null ? '–' : `${Math.round(status.uptime * 1000) / 10}%`;
+}
+
+export function formatAge(days: number | null): string {
+  if (days === null) return '–';
+  if (days < 1) return `${Math.round(days * 24)}h ago`;
+  return `${Math.round(days)}d ago`;
+}
@@ -0,0 +1,48 @@
+/**
+ * What an alert rule watches for. The alerts page labels each rule with describeCondition in the browser.
+ */
+export type AlertCondition =
+  | { type: 'invalid' }
+  | { type: 'stale'; days: number }
+  | { type: 'featured-image-lost' }
+  | { type: 'duplicate-guids' }
+  | { type: 'field-missing'; field: string };
+
+export const ALERT_CONDITION_TYPES: AlertCondition['type'][] = [
+  'invalid',
+  'stale',
+  'featured-image-lost',
+  'duplicate-guids',
+  'field-missing',
+];
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'invalid':
+      return 'Feed is invalid';
+    case 'stale':
+      return `No new item in ${condition.days} days`;
+    case 'featured-image-lost':
+      return 'Featured images disappeared';
+    case 'duplicate-guids':
+      return 'Duplicate GUIDs appeared';
+    case 'field-missing':
+      return `Field ${condition.field} is missing`;
+  }
+}
+
+/**
+ * Checks an untrusted condition from a request body; returns null when it is not usable
+ */
+export function parseAlertCondition(value: any): AlertCondition | null {
+  if (!value || typeof value !== 'object' || !ALERT_CONDITION_TYPES.includes(value.type)) return null;
+
+  if (value.type === 'stale') {
+    const days = Number(value.days);
+    return days > 0 ? { type: 'stale', days } : null;
+  }
+  if (value.type === 'field-missing') {
+    return typeof value.field === 'string' && value.field.trim() ? { type: 'field-missing', field: value.field.trim() } : null;
+  }
+  return { type: value.type };
+}
@@ -0,0 +1,116 @@
+import { AlertCondition, describeCondition } from './alert-conditions';
+import { computeMonitorStatus, SnapshotSummary, summarizeSnapshot } from './monitor';
+import {
+  AlertRule,
+  FeedSnapshot,
+  listAlertRules,
+  MonitoredFeed,
+  recordAlertDelivery,
+  setAlertRuleMatch,
+} from './monitor-store';
+import { postJson } from './webhook';
+
+/**
+ * Body POSTed to a rule's webhook
+ */
+export interface AlertPayload {
+  event: 'feed.alert' | 'feed.alert.test';
+  rule: { id: string; name: string; condition: AlertCondition };
+  feed: { id: string; url: string; title: string | null } | null;
+  message: string;
+  snapshot: SnapshotSummary | null;
+  firedAt: string;
+}
+
+/**
+ * Whether the latest check matches a condition. Conditions about the content of the feed
+ * only match valid checks, so an outage alerts through the invalid rule alone. The image and
+ * duplicate conditions are changes: they compare against the previous valid check and do not
+ * match a feed that never had images or always had duplicates.
+ */
+export function matchesCondition(condition: AlertCondition, history: FeedSnapshot[]): boolean {
+  const current = history[history.length - 1];
+  if (!current) return false;
+  const previous = findPreviousValid(history);
+
+  switch (condition.type) {
+    case 'invalid':
+      return !current.isValid;
+    case 'stale': {
+      const status = computeMonitorStatus(history, new Date(current.checkedAt));
+      return current.isValid && status.daysSinceLatestItem !== null && status.daysSinceLatestItem > condition.days;
+    }
+    case 'featured-image-lost':
+      return current.isValid && !current.hasFeaturedImage && !!previous && previous.hasFeaturedImage;
+    case 'duplicate-guids':
+      return current.isValid && current.duplicateGuids.length > 0 && !!previous && previous.duplicateGuids.length === 0;
+    case 'field-missing':
+      return current.isValid && !current.availableFields.includes(condition.field);
+  }
+}
+
+function findPreviousValid(history: FeedSnapshot[]): FeedSnapshot | null {
+  for (let index = history.length - 2; index >= 0; index--) {
+    if (history[index].isValid) return history[index];
+  }
+  return null;
+}
+
+async function deliver(rule: AlertRule, payload: AlertPayload, monitorId: string | null) {
+  let status: number | null = null;
+  let error: string | null = null;
+  try {
+    status = await postJson(rule.webhookUrl, payload);
+    if (status < 200 || status >= 300) error = `Webhook answered HTTP ${status}`;
+  } catch (deliveryError: any) {
+    error = deliveryError.message || 'Webhook request failed';
+  }
+  return recordAlertDelivery({ ruleId: rule.id, monitorId, message: payload.message, sentAt: payload.firedAt, status, error });
+}
+
+/**
+ * Evaluates every rule that applies to a feed after a check and notifies the ones
+ * that just started matching. A rule fires once per episode: it must stop matching
+ * before it can fire again for the same feed.
+ */
+export async function processAlerts(monitor: MonitoredFeed, history: FeedSnapshot[]): Promise<void> {
+  const current = history[history.length - 1];
+  if (!current) return;
+
+  const rules = (await listAlertRules()).filter((rule) => rule.monitorId === null || rule.monitorId === monitor.id);
+  for (const rule of rules) {
+    const started = await setAlertRuleMatch(rule.id, monitor.id, matchesCondition(rule.condition, history));
+    if (!started) continue;
+
+    await deliver(
+      rule,
+      {
+        event: 'feed.alert',
+        rule: { id: rule.id, name: rule.name, condition: rule.condition },
+        feed: { id: monitor.id, url: monitor.url, title: current.title },
+        message: `${rule.name}: ${describeCondition(rule.condition)} for ${current.title || monitor.url}`,
+        snapshot: summarizeSnapshot(current),
+        firedAt: new Date().toISOString(),
+      },
+      monitor.id
+    );
+  }
+}
+
+/**
+ * Sends a sample payload so a webhook can be verified without waiting for a regression
+ */
+export function sendTestAlert(rule: AlertRule) {
+  return deliver(
+    rule,
+    {
+      event: 'feed.alert.test',
+      rule: { id: rule.id, name: rule.name, condition: rule.condition },
+      feed: null,
+      message: `Test alert for "${rule.name}" (${describeCondition(rule.condition)})`,
+      snapshot: null,
+      firedAt: new Date().toISOString(),
+    },
+    null
+  );
+}
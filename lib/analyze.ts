@@ -0,0 +1,413 @@
+import Parser from 'rss-parser';
+import { buildContentPreviews, ContentPreview } from './content-preview';
+import { analyzeCadence, CadenceReport, describePostFrequency } from './cadence';
+import { classifyContent, ContentClassification } from './content-type';
+import { auditDates, DateAudit } from './date-audit';
+import { discoverFeeds, DiscoveredFeed, isHtmlDocument } from './discovery';
+import { decodeFeedBody, EncodingReport, findEncodingIssues } from './encoding';
+import { AnalysisError, AnalysisErrorCode, AnalysisErrorDetails, toAnalysisError } from './errors';
+import { detectFeedFormat, describeFeedType, normalizeAtomFeed, normalizeRdfFeed } from './feed-format';
+import { fetchFeed, FetchedFeed, FetchInfo, summarizeFetch } from './fetch-feed';
+import { auditHttpCaching, CachingAudit, getPollingHints } from './http-caching';
+import { ImageReport, probeFeedImages } from './image-probe';
+import {
+  analyzeItem,
+  computeFieldCoverage,
+  FieldCoverage,
+  getItemImageUrls,
+  getItemSourceValues,
+  ItemAnalysis,
+  SourceValue,
+} from './item-analysis';
+import { checkFeedLinks, LinkReport, resolveUrl } from './link-check';
+import { parseJsonFeed, validateJsonFeed } from './json-feed';
+import { inventoryNamespaces, NamespaceInventory } from './namespaces';
+import { analyzePodcast, PodcastReport } from './podcast';
+import { ReadinessProfile, ReadinessReport, scoreReadiness } from './readiness';
+import { validateFeedXML, ValidationDiagnostic } from './validation';
+import { parseXml } from './xml';
+
+export interface FeedAnalysis {
+  isValid: boolean;
+  title?: string;
+  link?: string;
+  availableFields: string[];
+  hasFeaturedImage: boolean;
+  contentType: 'full' | 'excerpt' | 'unknown';
+  contentClassification?: ContentClassification;
+  lastUpdate?: string | null; // ISO 8601
+  dateAudit?: DateAudit;
+  itemCount?: number;
+  feedType?: string;
+  postFrequency?: string | null;
+  cadence?: CadenceReport;
+  duplicateGuids?: string[];
+  missingFields?: string[];
+  imageSources?: {
+    mediaContent: number;
+    mediaThumbnail: number;
+    enclosure: number;
+    imgTag: number;
+    openGraph: number;
+  };
+  imageResolutions?: ImageReport;
+  items?: ItemAnalysis[];
+  contentPreviews?: ContentPreview[];
+  sourceItems?: Array<Record<string, SourceValue>>; // Field values of the first items, for mapping previews
+  fieldCoverage?: FieldCoverage[];
+  validationErrors?: ValidationDiagnostic[];
+  fetchInfo?: FetchInfo;
+  encoding?: EncodingReport;
+  namespaces?: NamespaceInventory;
+  podcast?: PodcastReport;
+  links?: LinkReport;
+  caching?: CachingAudit;
+  readiness?: ReadinessReport;
+  discoveredFeeds?: DiscoveredFeed[];
+  error?: string;
+  errorCode?: AnalysisErrorCode;
+  errorDetails?: AnalysisErrorDetails;
+}
+
+// Item elements rss-parser does not read by default, and the property each one is stored in
+export const ITEM_CUSTOM_FIELDS: Array<[string, string]> = [
+  ['media:content', 'mediaContent'],
+  ['media:thumbnail', 'mediaThumbnail'],
+  ['content:encoded', 'contentEncoded'],
+  ['description', 'description'],
+];
+
+export interface AnalyzeOptions {
+  auditCaching?: boolean; // Re-request the feed conditionally to check 304 support
+  podcastMode?: boolean; // Report podcast readiness even when the feed does not look like a podcast
+  checkLinks?: boolean; // HEAD-check item links, enclosures and images
+  probeImages?: boolean; // Read the format and dimensions of every item image
+  profile?: ReadinessProfile; // Score import readiness against this profile
+  sampleItems?: number; // Include the field values of this many items
+  previewContent?: boolean; // Include each item's body after sanitizing, with what was removed
+  deadline?: number; // Epoch ms by which image probes and link checks must stop, leaving time for the rest of the analysis
+}
+
+/**
+ * The response shape for a feed that could not be analyzed
+ */
+export function failedAnalysis(error: AnalysisError): FeedAnalysis {
+  return {
+    isValid: false,
+    availableFields: [],
+    hasFeaturedImage: false,
+    contentType: 'unknown',
+    error: error.message,
+    errorCode: error.code,
+    errorDetails: error.details,
+  };
+}
+
+/**
+ * Fetches, validates and analyzes a single feed URL.
+ * Never throws: failures come back as an invalid analysis with an error message.
+ */
+export async function analyzeFeedUrl(url: string, options: AnalyzeOptions = {}): Promise<FeedAnalysis> {
+  try {
+    // Fetch the feed once; validation and parsing both work on these bytes
+    const fetched = await fetchFeed(url);
+    const contentType = fetched.headers['content-type'] || null;
+    const decoded = decodeFeedBody(fetched.body, contentType);
+    return await analyzeDocument(decoded.text, contentType, fetched, decoded.encoding, options);
+  } catch (error: any) {
+    return failedAnalysis(toAnalysisError(error, url));
+  }
+}
+
+/**
+ * Analyzes an uploaded file from its raw bytes, so its charset is detected like a fetched feed's
+ */
+export async function analyzeFeedBytes(
+  body: Buffer,
+  mimeType: string | null = null,
+  options: AnalyzeOptions = {}
+): Promise<FeedAnalysis> {
+  try {
+    const decoded = decodeFeedBody(body, mimeType);
+    return await analyzeDocument(decoded.text, mimeType, null, decoded.encoding, options);
+  } catch (error: any) {
+    return failedAnalysis(toAnalysisError(error));
+  }
+}
+
+/**
+ * Validates and analyzes pasted feed content, which the browser already holds as text.
+ * Never throws, like analyzeFeedUrl.
+ */
+export async function analyzeFeedContent(
+  content: string,
+  mimeType: string | null = null,
+  options: AnalyzeOptions = {}
+): Promise<FeedAnalysis> {
+  try {
+    return await analyzeDocument(content, mimeType, null, null, options);
+  } catch (error: any) {
+    return failedAnalysis(toAnalysisError(error));
+  }
+}
+
+/**
+ * The shared analysis path; `fetched` and `encoding` are null when the content was supplied directly
+ */
+async function analyzeDocument(
+  feedContent: string,
+  mimeType: string | null,
+  fetched: FetchedFeed | null,
+  encoding: EncodingReport | null,
+  options: AnalyzeOptions = {}
+): Promise<FeedAnalysis> {
+  const format = detectFeedFormat(feedContent, mimeType);
+  const fetchInfo = fetched ? summarizeFetch(fetched) : undefined;
+
+  // A site homepage instead of a feed: offer the feeds it links to
+  if (isHtmlDocument(feedContent, mimeType)) {
+    if (!fetched) {
+      return failedAnalysis(
+        new AnalysisError('NOT_A_FEED', 'This content is an HTML page, not a feed. Paste the feed itself, or enter the page URL to discover its feeds.')
+      );
+    }
+    const discoveredFeeds = await discoverFeeds(feedContent, fetched.finalUrl);
+    const message = discoveredFeeds.length > 0
+      ? `This URL is an HTML page, not a feed. Found ${discoveredFeeds.length} feed${discoveredFeeds.length > 1 ? 's' : ''} for this site.`
+      : 'This URL is an HTML page, not a feed, and no feeds were found for this site.';
+    return {
+      ...failedAnalysis(new AnalysisError('NOT_A_FEED', message, { url: fetched.finalUrl })),
+      discoveredFeeds,
+      fetchInfo,
+    };
+  }
+
+  // Parsed once here; validation and every XML check below share the tree
+  const document = format === 'json' ? null : parseXml(feedContent);
+  const root = document?.root || null;
+
+  // Validate feed against W3C standards (or the JSON Feed spec)
+  const validation = document ? validateFeedXML(feedContent, document) : validateJsonFeed(feedContent);
+  // Listed even for an invalid feed, since an undeclared prefix is itself a well-formedness error
+  const namespaces = document ? inventoryNamespaces(feedContent, root) || undefined : undefined;
+  
+  if (!validation.isValid) {
+    const errors = validation.diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+    const message = `Feed validation failed: ${errors.map((diagnostic) => diagnostic.message).join('; ')}`;
+    return {
+      ...failedAnalysis(new AnalysisError(getValidationErrorCode(errors), message, { url: fetched?.finalUrl })),
+      validationErrors: validation.diagnostics,
+      namespaces,
+      fetchInfo,
+      encoding: encoding || undefined,
+    };
+  }
+
+  // Parse feed for analysis
+  const parser = new Parser({
+    customFields: {
+      item: ITEM_CUSTOM_FIELDS,
+    },
+  });
+
+  let feed: Parser.Output<any> & { [key: string]: any };
+  try {
+    feed = format === 'json' ? parseJsonFeed(feedContent) : await parser.parseString(feedContent);
+  } catch (error: any) {
+    throw new AnalysisError('PARSE_ERROR', `Could not parse the feed: ${error.message}`, { url: fetched?.finalUrl });
+  }
+  if (format === 'rdf') {
+    normalizeRdfFeed(feed);
+  } else if (format === 'atom') {
+    normalizeAtomFeed(feed);
+  }
+
+  // Get available fields from feed and items
+  const availableFields = new Set<string>();
+
+  // Feed-level fields
+  if (feed.title) availableFields.add('title');
+  if (feed.link) availableFields.add('link');
+  if (feed.description) availableFields.add('description');
+  if (feed.categories && feed.categories.length > 0)
+    availableFields.add('categories');
+
+  // Analyze every item so one bad item in the middle of the feed is not missed
+  const itemAnalyses = (feed.items || []).map((item, index) => analyzeItem(item, index));
+  const fieldCoverage = computeFieldCoverage(itemAnalyses);
+  for (const coverage of fieldCoverage) {
+    availableFields.add(coverage.field);
+  }
+
+  // Check for featured images
+  const hasFeaturedImage = itemAnalyses.some((item) => item.imageSource !== null);
+
+  // Determine content type (full article vs excerpt) from every item
+  const contentClassification = classifyContent(feed.items || []);
+  const contentType = contentClassification.contentType;
+  let lastUpdate: string | null = null;
+  
+  if (feed.items && feed.items.length > 0) {
+    // Find the most recent date among all items; feeds are not always sorted newest first
+    let latestDate: Date | null = null;
+    for (const item of feed.items) {
+      if (item.pubDate) {
+        const itemDate = new Date(item.pubDate);
+        if (!isNaN(itemDate.getTime())) {
+          if (!latestDate || itemDate > latestDate) {
+            latestDate = itemDate;
+          }
+        }
+      }
+    }
+
+    if (latestDate) {
+      // The viewer formats it in their own timezone; dates that do not parse are reported by the date audit
+      lastUpdate = latestDate.toISOString();
+    }
+  }
+
+  // Get the number of items in the feed
+  const itemCount = feed.items ? feed.items.length : 0;
+
+  // 1. Feed Type Detection
+  const feedType = describeFeedType(format, feedContent);
+
+  // 2. Publishing cadence: gap percentiles, posting histograms and a polling recommendation
+  const itemDates = itemAnalyses
+    .filter((item) => item.hasValidDate && item.pubDate)
+    .map((item) => new Date(item.pubDate as string));
+  const pollingHints = getPollingHints(root, format);
+  const cadence = analyzeCadence(itemDates, pollingHints);
+  const postFrequency = describePostFrequency(cadence);
+
+  // 3. Duplicate GUID Warning
+  const duplicateGuids: string[] = [];
+  if (feed.items && feed.items.length > 0) {
+    const guidMap = new Map<string, number>();
+    for (const item of feed.items) {
+      const guid = item.guid || item.link || '';
+      if (guid) {
+        guidMap.set(guid, (guidMap.get(guid) || 0) + 1);
+      }
+    }
+    for (const [guid, count] of Array.from(guidMap.entries())) {
+      if (count > 1) {
+        duplicateGuids.push(guid);
+      }
+    }
+  }
+
+  // 4. Missing Essential Fields (missing from at least one item)
+  const missingFields = Array.from(new Set(itemAnalyses.flatMap((item) => item.missingFields)));
+
+  // 5. Featured Image Source Breakdown
+  const imageSources = {
+    mediaContent: 0,
+    mediaThumbnail: 0,
+    enclosure: 0,
+    imgTag: 0,
+    openGraph: 0,
+  };
+  
+  // Check XML directly for media:thumbnail tags
+  const mediaThumbnailMatches = Array.from(feedContent.matchAll(/<media:thumbnail[^>]*>/gi));
+  if (mediaThumbnailMatches.length > 0) {
+    imageSources.mediaThumbnail = mediaThumbnailMatches.length;
+  }
+  
+  if (feed.items && feed.items.length > 0) {
+    for (const item of feed.items) {
+      // Check media:content
+      if ((item as any).mediaContent) {
+        imageSources.mediaContent++;
+      }
+      
+      // Check media:thumbnail (parsed version)
+      if ((item as any).mediaThumbnail) {
+        // Only count if not already counted from XML
+        if (imageSources.mediaThumbnail === 0) {
+          imageSources.mediaThumbnail++;
+        }
+      }
+      
+      // Check enclosure
+      if (item.enclosure && item.enclosure.type?.startsWith('image/')) {
+        imageSources.enclosure++;
+      }
+      
+      // Check img tags in content
+      const content = (item as any).contentEncoded || item.content || item.description || '';
+      if (content.includes('<img')) {
+        imageSources.imgTag++;
+      }
+      
+      // Check for Open Graph tags (basic check)
+      if (content.includes('og:image') || content.includes('property="og:image"')) {
+        imageSources.openGraph++;
+      }
+    }
+  }
+
+  // 6. Image Resolution Check: read the header of every image server-side
+  const baseUrl = fetched?.finalUrl || feed.link || null;
+  const imageUrls = (feed.items || [])
+    .flatMap((item) => getItemImageUrls(item))
+    .map((url) => resolveUrl(url, baseUrl))
+    .filter((url): url is string => url !== null);
+  const imageResolutions = options.probeImages && imageUrls.length > 0 ? await probeFeedImages(imageUrls, options.deadline) : undefined;
+
+  // Podcasts are detected automatically; podcast mode reports on any feed
+  const podcastReport = format === 'rss' || options.podcastMode
+    ? await analyzePodcast(feedContent, format, root, { measureArtwork: options.probeImages, deadline: options.deadline })
+    : null;
+  const podcast = podcastReport && (podcastReport.detected || options.podcastMode) ? podcastReport : undefined;
+
+  const links = options.checkLinks ? await checkFeedLinks(feed.items || [], baseUrl, options.deadline) : undefined;
+
+  // The conditional re-request is only worth making once the feed is known to be usable
+  const caching = fetched && options.auditCaching ? await auditHttpCaching(fetched, pollingHints) : undefined;
+
+  const analysis: FeedAnalysis = {
+    isValid: true,
+    title: feed.title || 'Untitled Feed',
+    link: feed.link || undefined,
+    availableFields: Array.from(availableFields).sort(),
+    hasFeaturedImage,
+    contentType,
+    contentClassification,
+    lastUpdate,
+    dateAudit: auditDates(feedContent, format, root),
+    itemCount,
+    feedType,
+    postFrequency,
+    cadence,
+    duplicateGuids: duplicateGuids.length > 0 ? duplicateGuids : undefined,
+    missingFields: missingFields.length > 0 ? missingFields : undefined,
+    imageSources,
+    imageResolutions,
+    items: itemAnalyses,
+    contentPreviews: options.previewContent ? buildContentPreviews(feed.items || [], baseUrl) : undefined,
+    sourceItems: options.sampleItems ? (feed.items || []).slice(0, options.sampleItems).map(getItemSourceValues) : undefined,
+    fieldCoverage,
+    validationErrors: validation.diagnostics.length > 0 ? validation.diagnostics : undefined,
+    fetchInfo,
+    encoding: encoding ? { ...encoding, affectedItems: findEncodingIssues(feed.items || []) } : undefined,
+    namespaces,
+    podcast,
+    links,
+    caching,
+  };
+  return options.profile ? { ...analysis, readiness: scoreReadiness(analysis, options.profile) } : analysis;
+}
+
+/**
+ * The most fundamental problem among the validation errors decides the code
+ */
+function getValidationErrorCode(errors: ValidationDiagnostic[]): AnalysisErrorCode {
+  const rules = new Set(errors.map((diagnostic) => diagnostic.rule));
+  if (rules.has('not-xml')) return 'NOT_XML';
+  if (rules.has('well-formed') || rules.has('json-syntax')) return 'PARSE_ERROR';
+  if (rules.has('unknown-format')) return 'NOT_A_FEED';
+  return 'VALIDATION_FAILED';
+}
@@ -0,0 +1,57 @@
+import type { FeedAnalysis } from './analyze';
+import type { AnalysisErrorCode } from './errors';
+import type { OpmlOutline } from './opml';
+
+export const MAX_BATCH_URLS = 100;
+export const BATCH_CONCURRENCY = 4;
+
+/**
+ * One feed's row in the batch summary grid
+ */
+export interface BatchResult {
+  index: number; // Position in the submitted list
+  url: string;
+  title: string | null;
+  htmlUrl: string | null;
+  folders: string[]; // OPML folder path when the batch came from an OPML file, outermost first
+  isValid: boolean;
+  itemCount: number | null;
+  feedType: string | null;
+  lastUpdate: string | null;
+  postFrequency: string | null;
+  error: string | null;
+  errorCode: AnalysisErrorCode | null;
+}
+
+/**
+ * Lines of the newline-delimited JSON stream returned by /api/analyze/batch
+ */
+export type BatchEvent =
+  | { type: 'start'; total: number }
+  | { type: 'result'; result: BatchResult }
+  | { type: 'done' };
+
+/**
+ * Reduces a full analysis to a grid row; OPML outline details fill in what the feed lacks
+ */
+export function summarizeAnalysis(
+  index: number,
+  url: string,
+  analysis: FeedAnalysis,
+  outline: OpmlOutline | null = null
+): BatchResult {
+  return {
+    index,
+    url,
+    title: analysis.title || outline?.title || null,
+    htmlUrl: analysis.link || outline?.htmlUrl || null,
+    folders: outline?.folders || [],
+    isValid: analysis.isValid,
+    itemCount: analysis.itemCount ?? null,
+    feedType: analysis.feedType || null,
+    lastUpdate: analysis.lastUpdate || null,
+    postFrequency: analysis.postFrequency || null,
+    error: analysis.error || null,
+    errorCode: analysis.errorCode || null,
+  };
+}
@@ -0,0 +1,130 @@
+import { PollingHints } from './http-caching';
+
+const HOUR_MS = 60 * 60 * 1000;
+// Poll often enough to see a typical post within a quarter of the usual gap, in steps a scheduler can use
+const POLLING_FRACTION = 0.25;
+const POLLING_STEPS_MINUTES = [15, 30, 60, 120, 240, 360, 720, 1440];
+
+/**
+ * Publishing rhythm of the feed from its item dates. Histograms are in UTC.
+ */
+export interface CadenceReport {
+  datedItems: number;
+  gaps: {
+    medianHours: number;
+    p25Hours: number;
+    p75Hours: number;
+    p90Hours: number;
+    longestHours: number;
+    longestFrom: string; // ISO dates of the two posts around the longest gap
+    longestTo: string;
+  } | null; // Null with fewer than two dated items
+  weekdays: number[]; // Posts per day of the week, Sunday first
+  hours: number[]; // Posts per hour of the day, 0-23
+  latestPost: string | null;
+  nextExpected: string | null; // Latest post plus the median gap
+  overdue: boolean; // The next expected post is later than the longest gap so far would allow
+  polling: {
+    intervalMinutes: number;
+    reason: string;
+  } | null;
+}
+
+export function analyzeCadence(dates: Date[], hints: PollingHints | null, now: Date = new Date()): CadenceReport {
+  const times = dates.map((date) => date.getTime()).sort((a, b) => a - b);
+  const weekdays = new Array(7).fill(0);
+  const hours = new Array(24).fill(0);
+  for (const time of times) {
+    const date = new Date(time);
+    weekdays[date.getUTCDay()]++;
+    hours[date.getUTCHours()]++;
+  }
+
+  const report: CadenceReport = {
+    datedItems: times.length,
+    gaps: null,
+    weekdays,
+    hours,
+    latestPost: times.length > 0 ? new Date(times[times.length - 1]).toISOString() : null,
+    nextExpected: null,
+    overdue: false,
+    polling: null,
+  };
+  if (times.length < 2) {
+    report.polling = getPollingRecommendation(null, hints);
+    return report;
+  }
+
+  const gaps = times.slice(1).map((time, index) => time - times[index]);
+  const longestIndex = gaps.indexOf(Math.max(...gaps));
+  const sortedGaps = [...gaps].sort((a, b) => a - b);
+  const median = getPercentile(sortedGaps, 0.5);
+  const latest = times[times.length - 1];
+
+  report.gaps = {
+    medianHours: toHours(median),
+    p25Hours: toHours(getPercentile(sortedGaps, 0.25)),
+    p75Hours: toHours(getPercentile(sortedGaps, 0.75)),
+    p90Hours: toHours(getPercentile(sortedGaps, 0.9)),
+    longestHours: toHours(gaps[longestIndex]),
+    longestFrom: new Date(times[longestIndex]).toISOString(),
+    longestTo: new Date(times[longestIndex + 1]).toISOString(),
+  };
+  report.nextExpected = new Date(latest + median).toISOString();
+  report.overdue = now.getTime() - latest > gaps[longestIndex];
+  report.polling = getPollingRecommendation(median, hints);
+  return report;
+}
+
+/**
+ * The post frequency summary, from the median gap so one old item does not skew it
+ */
+export function describePostFrequency(cadence: CadenceReport): string | null {
+  if (!cadence.gaps) return null;
+  const daysBetween = cadence.gaps.medianHours / 24;
+
+  if (daysBetween < 0.1) {
+    return 'Multiple posts per day';
+  } else if (daysBetween < 1) {
+    const perDay = Math.round(1 / daysBetween);
+    return perDay === 1 ? '1 post per day' : `${perDay} posts per day`;
+  } else if (daysBetween < 7) {
+    const perWeek = Math.round(7 / daysBetween);
+    return perWeek === 1 ? '1 post per week' : `${perWeek} posts per week`;
+  } else if (daysBetween < 30) {
+    const perMonth = Math.round(30 / daysBetween);
+    return perMonth === 1 ? '1 post per month' : `${perMonth} posts per month`;
+  }
+  return 'Less than 1 post per month';
+}
+
+/**
+ * A fraction of the median gap, never more often than the feed's own <ttl> or sy:updatePeriod asks
+ */
+function getPollingRecommendation(medianGap: number | null, hints: PollingHints | null): CadenceReport['polling'] {
+  const hinted = hints?.suggestedIntervalMinutes ?? null;
+  if (medianGap === null) {
+    return hinted !== null ? { intervalMinutes: hinted, reason: 'The feed\'s own polling hint; too few dated items to measure the cadence' } : null;
+  }
+
+  const target = (medianGap / 60000) * POLLING_FRACTION;
+  const interval = POLLING_STEPS_MINUTES.filter((step) => step <= target).pop() ?? POLLING_STEPS_MINUTES[0];
+  if (hinted !== null && hinted > interval) {
+    return { intervalMinutes: hinted, reason: 'The feed asks not to be polled more often' };
+  }
+  return { intervalMinutes: interval, reason: 'A quarter of the median gap between posts' };
+}
+
+/**
+ * Linear interpolation between the closest ranks of an ascending list
+ */
+function getPercentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function toHours(milliseconds: number): number {
+  return Math.round((milliseconds / HOUR_MS) * 10) / 10;
+}
@@ -0,0 +1,41 @@
+/**
+ * Runs an async worker over every item with at most `limit` in flight at once.
+ * Results keep the input order regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+}
+
+/**
+ * Like mapWithConcurrency, but starts no work at or after `stopAt` (epoch ms) and returns null for it.
+ * A failure that ends after `stopAt` was most likely cut short by it rather than by the item,
+ * so it is also returned as null instead of as a result.
+ */
+export async function mapUntilDeadline<T, R>(
+  items: T[],
+  limit: number,
+  stopAt: number,
+  worker: (item: T) => Promise<R>,
+  failed: (result: R) => boolean
+): Promise<(R | null)[]> {
+  return mapWithConcurrency(items, limit, async (item) => {
+    if (Date.now() >= stopAt) return null;
+    const result = await worker(item);
+    return failed(result) && Date.now() >= stopAt ? null : result;
+  });
+}
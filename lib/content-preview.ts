@@ -0,0 +1,276 @@
+import { Parser as HtmlParser } from 'htmlparser2';
+import { FeedItem } from './item-analysis';
+
+// Keeps the response small for long feeds
+export const MAX_PREVIEW_ITEMS = 25;
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'dd', 'del', 'div', 'dl', 'dt', 'em',
+  'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'li', 'mark', 'ol',
+  'p', 'picture', 'pre', 'q', 's', 'small', 'source', 'span', 'strong', 'sub', 'sup', 'table', 'tbody',
+  'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'u', 'ul', 'audio', 'video',
+]);
+// Dropped together with everything inside them
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'form', 'input', 'button',
+  'select', 'textarea', 'svg', 'math', 'frame', 'frameset', 'applet', 'base', 'link', 'meta',
+]);
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'source', 'wbr', 'input', 'embed', 'link', 'meta', 'base']);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['title', 'lang', 'dir'],
+  a: ['href'],
+  img: ['src', 'alt', 'width', 'height'],
+  source: ['src', 'type', 'media'],
+  video: ['src', 'poster', 'width', 'height'],
+  audio: ['src'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+  time: ['datetime'],
+  blockquote: ['cite'],
+  q: ['cite'],
+  ol: ['start', 'type'],
+};
+const URL_ATTRIBUTES = new Set(['href', 'src', 'poster', 'cite']);
+
+// Hosts that serve open and view tracking images
+const TRACKING_HOSTS = [
+  'pixel.wp.com',
+  'stats.wordpress.com',
+  'feeds.feedburner.com',
+  'feeds.feedblitz.com',
+  'www.google-analytics.com',
+  'pixel.quantserve.com',
+  'sb.scorecardresearch.com',
+];
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'iframe' | 'object';
+
+export interface EmbeddedMedia {
+  kind: MediaKind;
+  url: string;
+  kept: boolean; // False for embeds the sanitizer removed, e.g. an iframe player, and unresolvable sources
+}
+
+export interface RemovedContent {
+  what: string; // e.g. "<script>", "style attribute", "tracking pixel"
+  count: number;
+}
+
+export interface RelativeUrl {
+  url: string; // As written in the content
+  resolved: string | null; // Null when there is no base URL to resolve against
+}
+
+/**
+ * One item's body as an importer would display it, with what the sanitizer had to change
+ */
+export interface ContentPreview {
+  index: number; // 0-based position of the item in the feed
+  title: string | null;
+  source: 'content:encoded' | 'content' | 'description' | null; // The field the body came from
+  html: string; // Sanitized; safe to render
+  removed: RemovedContent[];
+  relativeUrls: RelativeUrl[];
+  trackingPixels: string[];
+  media: EmbeddedMedia[];
+}
+
+export interface SanitizedHtml {
+  html: string;
+  removed: RemovedContent[];
+  relativeUrls: RelativeUrl[];
+  trackingPixels: string[];
+  media: EmbeddedMedia[];
+}
+
+/**
+ * Previews the body of the first items. Relative URLs resolve against the item link, else `baseUrl`.
+ */
+export function buildContentPreviews(items: FeedItem[], baseUrl: string | null): ContentPreview[] {
+  return items.slice(0, MAX_PREVIEW_ITEMS).map((item, index) => {
+    const [source, body] = getPreviewSource(item);
+    const itemBase = isAbsoluteHttpUrl(item.link) ? item.link : baseUrl;
+    return {
+      index,
+      title: item.title || null,
+      source,
+      ...sanitizeHtml(body, itemBase),
+    };
+  });
+}
+
+function getPreviewSource(item: FeedItem): [ContentPreview['source'], string] {
+  if (item.contentEncoded) return ['content:encoded', item.contentEncoded];
+  if (item.content) return ['content', item.content];
+  if (item.description) return ['description', item.description];
+  return [null, ''];
+}
+
+/**
+ * Rebuilds HTML from an allowlist of tags and attributes. Scripts, embeds, inline styles,
+ * event handlers and tracking pixels are dropped and counted; links open in a new tab.
+ */
+export function sanitizeHtml(html: string, baseUrl: string | null): SanitizedHtml {
+  const output: string[] = [];
+  const removed = new Map<string, number>();
+  const relativeUrls: RelativeUrl[] = [];
+  const trackingPixels: string[] = [];
+  const media: EmbeddedMedia[] = [];
+  // Open tags that were kept, so only their close tags are written
+  const kept: boolean[] = [];
+  let dropDepth = 0;
+
+  const count = (what: string) => removed.set(what, (removed.get(what) || 0) + 1);
+
+  // The scheme is checked on the parsed URL, since URL parsing drops the tabs and newlines
+  // that could hide "javascript:" from a check on the raw string
+  const resolve = (url: string, allowDataImage = false): string | null => {
+    const cleaned = stripControlCharacters(url);
+    if (cleaned.startsWith('#')) return cleaned;
+    const absolute = /^[a-z][a-z0-9+.-]*:/i.test(cleaned);
+    let parsed: URL | null = null;
+    try {
+      parsed = absolute ? new URL(cleaned) : baseUrl ? new URL(cleaned, baseUrl) : null;
+    } catch {
+      parsed = null;
+    }
+    const resolved = parsed && isSafeUrl(parsed, allowDataImage) ? parsed.toString() : null;
+    if (!absolute && !relativeUrls.some((entry) => entry.url === cleaned)) {
+      relativeUrls.push({ url: cleaned, resolved });
+    }
+    return resolved;
+  };
+
+  const parser = new HtmlParser(
+    {
+      onopentag(name, attributes) {
+        if (dropDepth > 0) {
+          dropDepth++;
+          return;
+        }
+        if (DROPPED_TAGS.has(name)) {
+          count(`<${name}>`);
+          if ((name === 'iframe' || name === 'embed') && attributes.src) {
+            media.push({ kind: 'iframe', url: resolve(attributes.src) || attributes.src, kept: false });
+          } else if (name === 'object' && attributes.data) {
+            media.push({ kind: 'object', url: resolve(attributes.data) || attributes.data, kept: false });
+          }
+          dropDepth = 1;
+          return;
+        }
+        if (!ALLOWED_TAGS.has(name)) {
+          // Unknown or presentational tags are unwrapped; their text stays
+          count(`<${name}>`);
+          kept.push(false);
+          return;
+        }
+
+        if (name === 'img' && isTrackingPixel(attributes)) {
+          count('tracking pixel');
+          if (attributes.src) trackingPixels.push(attributes.src);
+          kept.push(false);
+          return;
+        }
+
+        const allowed = [...ALLOWED_ATTRIBUTES['*'], ...(ALLOWED_ATTRIBUTES[name] || [])];
+        const parts: string[] = [name];
+        for (const [attribute, value] of Object.entries(attributes)) {
+          if (attribute === 'style') {
+            count('style attribute');
+            continue;
+          }
+          if (attribute.startsWith('on')) {
+            count('event handler attribute');
+            continue;
+          }
+          if (!allowed.includes(attribute)) continue;
+
+          let safeValue = value;
+          if (URL_ATTRIBUTES.has(attribute)) {
+            const resolved = resolve(value, (attribute === 'src' && (name === 'img' || name === 'source')) || attribute === 'poster');
+            if (!resolved) {
+              count(/^javascript:/i.test(stripControlCharacters(value)) ? 'javascript: URL' : 'unresolvable URL');
+              continue;
+            }
+            safeValue = resolved;
+          }
+          parts.push(`${attribute}="${escapeHtml(safeValue)}"`);
+        }
+
+        if ((name === 'img' || name === 'video' || name === 'audio') && attributes.src) {
+          const resolved = resolve(attributes.src, name === 'img');
+          media.push({ kind: name === 'img' ? 'image' : name, url: resolved || attributes.src, kept: resolved !== null });
+        }
+        if (name === 'a') parts.push('target="_blank"', 'rel="noopener noreferrer nofollow"');
+        if (name === 'video' || name === 'audio') parts.push('controls');
+
+        output.push(`<${parts.join(' ')}>`);
+        kept.push(true);
+      },
+      ontext(text) {
+        if (dropDepth === 0) output.push(escapeHtml(text));
+      },
+      onclosetag(name) {
+        if (dropDepth > 0) {
+          dropDepth--;
+          return;
+        }
+        if (kept.pop() && !VOID_TAGS.has(name)) {
+          output.push(`</${name}>`);
+        }
+      },
+      oncomment() {
+        // Comments never reach the output
+      },
+    },
+    { decodeEntities: true }
+  );
+  parser.write(html);
+  parser.end();
+
+  return {
+    html: output.join(''),
+    removed: Array.from(removed.entries()).map(([what, total]) => ({ what, count: total })),
+    relativeUrls,
+    trackingPixels,
+    media,
+  };
+}
+
+/**
+ * Removes the ASCII control characters and whitespace that browsers ignore inside a URL
+ */
+function stripControlCharacters(url: string): string {
+  return url.replace(/[\u0000-\u001F\u007F]/g, '').trim();
+}
+
+function isSafeUrl(url: URL, allowDataImage: boolean): boolean {
+  if (url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'mailto:') return true;
+  // Raster images only; an SVG can carry script
+  return allowDataImage && url.protocol === 'data:' && /^data:image\/(png|jpe?g|gif|webp|avif)[;,]/i.test(url.href);
+}
+
+function isTrackingPixel(attributes: Record<string, string>): boolean {
+  const tiny = (value: string | undefined) => value !== undefined && /^\s*[01](px)?\s*$/.test(value);
+  if (tiny(attributes.width) && tiny(attributes.height)) return true;
+  if (/display\s*:\s*none/i.test(attributes.style || '')) return true;
+  try {
+    const host = new URL(attributes.src).hostname;
+    return TRACKING_HOSTS.includes(host);
+  } catch {
+    return false;
+  }
+}
+
+function isAbsoluteHttpUrl(url: string | undefined): url is string {
+  return !!url && /^https?:\/\//i.test(url);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,244 @@
+import { FeedItem } from './item-analysis';
+
+export type ItemContentType = 'full' | 'excerpt' | 'empty';
+
+// Text an excerpt ends with, checked near the end of the body
+const TRUNCATION_MARKERS: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /\[\s*(…|\.\.\.)\s*\]/, label: '"[…]" marker' },
+  { pattern: /\bread\s+more\b/i, label: '"Read more" link' },
+  { pattern: /\bcontinue\s+reading\b/i, label: '"Continue reading" link' },
+  { pattern: /\bread\s+the\s+(full|rest|whole)\b/i, label: '"Read the full story" link' },
+  { pattern: /\b(keep|view|see)\s+reading\b/i, label: '"Keep reading" link' },
+];
+const MARKER_WINDOW = 200; // Characters at the end of the text searched for markers
+// Upper word-count bounds of the distribution buckets; the last bucket is open-ended
+const WORD_COUNT_BUCKETS = [50, 150, 300, 600, 1200];
+// Automatic excerpts cut every item at about the same length, e.g. WordPress at 55 words
+const FIXED_LENGTH_TOLERANCE = 3;
+const FIXED_LENGTH_SHARE = 0.6;
+// A short post below this many words stays an excerpt on a tie, however cleanly it ends
+const SHORT_POST_MIN_WORDS = 30;
+// Letters and digits in any script, without general punctuation such as "…" and "—"
+const WORD_CHARACTERS = '0-9A-Za-z\\u00C0-\\u1FFF\\u2070-\\uFFFF';
+const WORD_PATTERN = new RegExp(`[${WORD_CHARACTERS}]`);
+const NON_WORD_PATTERN = new RegExp(`[^${WORD_CHARACTERS}]+`, 'g');
+
+export interface ItemContentClassification {
+  index: number; // 0-based position of the item in the feed
+  title: string | null;
+  type: ItemContentType;
+  confidence: number; // 0-100
+  wordCount: number;
+  signals: string[]; // Why the item was classified this way
+}
+
+export interface WordCountBucket {
+  label: string; // e.g. "150–299"
+  min: number;
+  max: number | null; // Null for the open-ended last bucket
+  count: number;
+}
+
+/**
+ * Full-article vs excerpt verdict for the whole feed, backed by a classification of every item
+ */
+export interface ContentClassification {
+  contentType: 'full' | 'excerpt' | 'unknown';
+  confidence: number; // 0-100
+  fullItems: number;
+  excerptItems: number;
+  emptyItems: number;
+  wordCounts: {
+    min: number;
+    median: number;
+    max: number;
+    buckets: WordCountBucket[];
+  } | null; // Null when no item has a body
+  fixedLength: number | null; // Word count most items stop at, when the feed cuts them automatically
+  items: ItemContentClassification[];
+}
+
+interface ItemBody {
+  text: string;
+  html: string;
+  wordCount: number;
+  descriptionText: string | null;
+  encodedText: string | null;
+  encodedField: string; // content:encoded, or content_html in a JSON Feed
+}
+
+/**
+ * Classifies every item from truncation markers, how `description` compares with `content:encoded`,
+ * the item's length and structure, and whether the feed cuts all items at the same length.
+ */
+export function classifyContent(items: FeedItem[]): ContentClassification {
+  const bodies = items.map(getItemBody);
+  const wordCounts = bodies.map((body) => body.wordCount).filter((count) => count > 0);
+  const fixedLength = findFixedLength(wordCounts);
+
+  const classified = items.map((item, index) => classifyItem(item, index, bodies[index], fixedLength));
+  const nonEmpty = classified.filter((item) => item.type !== 'empty');
+  const fullItems = nonEmpty.filter((item) => item.type === 'full').length;
+  const excerptItems = nonEmpty.length - fullItems;
+
+  let contentType: ContentClassification['contentType'] = 'unknown';
+  let confidence = 0;
+  if (nonEmpty.length > 0) {
+    contentType = fullItems >= excerptItems ? 'full' : 'excerpt';
+    // Agreement between items, weighted by how sure each one is
+    const agreeing = nonEmpty.filter((item) => item.type === contentType);
+    const meanConfidence = agreeing.reduce((sum, item) => sum + item.confidence, 0) / agreeing.length;
+    confidence = Math.round((agreeing.length / nonEmpty.length) * meanConfidence);
+  }
+
+  return {
+    contentType,
+    confidence,
+    fullItems,
+    excerptItems,
+    emptyItems: classified.length - nonEmpty.length,
+    wordCounts: wordCounts.length > 0 ? summarizeWordCounts(wordCounts) : null,
+    fixedLength,
+    items: classified,
+  };
+}
+
+function getItemBody(item: FeedItem): ItemBody {
+  const html: string = item.contentEncoded || item.content || item.description || '';
+  const text = toText(html);
+  return {
+    text,
+    html,
+    wordCount: countWords(text),
+    descriptionText: item.description ? toText(item.description) : null,
+    encodedText: item.contentEncoded || item.content_html ? toText(item.contentEncoded || item.content_html) : null,
+    encodedField: item.contentEncoded ? 'content:encoded' : 'content_html',
+  };
+}
+
+function classifyItem(item: FeedItem, index: number, body: ItemBody, fixedLength: number | null): ItemContentClassification {
+  const base = { index, title: item.title || null, wordCount: body.wordCount };
+  if (body.wordCount === 0) {
+    return { ...base, type: 'empty', confidence: 100, signals: ['No body text'] };
+  }
+
+  // Positive scores point to a full article, negative ones to an excerpt
+  let score = 0;
+  const signals: string[] = [];
+  let endsCleanly = false;
+
+  const ending = body.text.slice(-MARKER_WINDOW);
+  const marker = TRUNCATION_MARKERS.find((entry) => entry.pattern.test(ending));
+  if (marker) {
+    score -= 3;
+    signals.push(`Ends with a ${marker.label}`);
+  } else if (/(…|\.\.\.)\s*$/.test(body.text)) {
+    score -= 2;
+    signals.push('Ends mid-sentence with an ellipsis');
+  } else if (/[.!?]["'”’)]?$/.test(body.text)) {
+    // Lets a short but finished post count as full
+    score += 1;
+    endsCleanly = true;
+    signals.push('Ends with a complete sentence');
+  }
+
+  if (body.encodedText && body.descriptionText) {
+    const encodedWords = countWords(body.encodedText);
+    const descriptionWords = countWords(body.descriptionText);
+    if (encodedWords > descriptionWords * 1.5 && encodedWords - descriptionWords > 30) {
+      score += 3;
+      signals.push(`${body.encodedField} has ${encodedWords} words against ${descriptionWords} in the description`);
+    } else if (normalizeText(body.encodedText) === normalizeText(body.descriptionText)) {
+      signals.push(`${body.encodedField} repeats the description`);
+    }
+  }
+
+  if (body.wordCount >= 300) {
+    score += 2;
+    signals.push(`${body.wordCount} words`);
+  } else if (body.wordCount >= 150) {
+    score += 1;
+    signals.push(`${body.wordCount} words`);
+  } else if (body.wordCount < 50) {
+    score -= 1;
+    signals.push(`Only ${formatWords(body.wordCount)}`);
+  }
+
+  const paragraphs = (body.html.match(/<(p|h[1-6]|li|blockquote)[\s>]/gi) || []).length;
+  if (paragraphs >= 4) {
+    score += 1;
+    signals.push(`${paragraphs} paragraphs, headings or list items`);
+  }
+
+  const atFixedLength = fixedLength !== null && Math.abs(body.wordCount - fixedLength) <= FIXED_LENGTH_TOLERANCE;
+  if (atFixedLength) {
+    score -= 2;
+    signals.push(`Stops at about ${formatWords(fixedLength as number)} like most items in the feed`);
+  }
+
+  // On a tie a short post stays an excerpt, unless it ends cleanly, is not cut at the feed's usual
+  // length, comes from a full-content field rather than a summary and is not just a sentence or two
+  const shortPost =
+    endsCleanly && !atFixedLength && body.encodedText !== null && body.wordCount >= SHORT_POST_MIN_WORDS;
+  const type: ItemContentType = score > 0 || (score === 0 && (body.wordCount >= 150 || shortPost)) ? 'full' : 'excerpt';
+  const confidence = Math.min(95, 50 + Math.abs(score) * 10);
+  return { ...base, type, confidence, signals };
+}
+
+/**
+ * The word count most items share, when at least FIXED_LENGTH_SHARE of them are within tolerance of it
+ */
+function findFixedLength(wordCounts: number[]): number | null {
+  if (wordCounts.length < 3) return null;
+  const median = getMedian(wordCounts);
+  const near = wordCounts.filter((count) => Math.abs(count - median) <= FIXED_LENGTH_TOLERANCE).length;
+  // Long articles of similar length are not an automatic cut
+  return median < 150 && near / wordCounts.length >= FIXED_LENGTH_SHARE ? median : null;
+}
+
+function summarizeWordCounts(wordCounts: number[]): NonNullable<ContentClassification['wordCounts']> {
+  const bounds = [0, ...WORD_COUNT_BUCKETS];
+  const buckets: WordCountBucket[] = bounds.map((min, index) => {
+    const max = index + 1 < bounds.length ? bounds[index + 1] - 1 : null;
+    return {
+      label: max === null ? `${min}+` : `${min}–${max}`,
+      min,
+      max,
+      count: wordCounts.filter((count) => count >= min && (max === null || count <= max)).length,
+    };
+  });
+  return {
+    min: Math.min(...wordCounts),
+    median: getMedian(wordCounts),
+    max: Math.max(...wordCounts),
+    buckets,
+  };
+}
+
+function getMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function toText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;|&#160;/g, ' ')
+    .replace(/&hellip;|&#8230;/g, '…')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(NON_WORD_PATTERN, '');
+}
+
+function formatWords(count: number): string {
+  return count === 1 ? '1 word' : `${count} words`;
+}
+
+function countWords(text: string): number {
+  return text ? text.split(/\s+/).filter((word) => WORD_PATTERN.test(word)).length : 0;
+}
@@ -0,0 +1,285 @@
+import { FeedFormat } from './feed-format';
+import { createJsonLocator } from './json-feed';
+import { createDiagnosticCollector, createGroupedReporter, Reporter, ValidationDiagnostic } from './validation';
+import { childElement, childElements, XmlElement } from './xml';
+
+export const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+
+// Clock skew between the publisher's server and this one is not a future date
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+// RFC 822 section 5 with the four-digit years RSS 2.0 recommends, e.g. "Wed, 02 Oct 2002 13:00:00 GMT"
+const RFC822_PATTERN = /^(?:([A-Za-z]{3}),\s*)?(\d{1,2})\s+([A-Za-z]{3})\s+(\d{2}|\d{4})\s+(\d{2}):(\d{2})(?::(\d{2}))?(?:\s+([+-]\d{4}|[A-Za-z]{1,3}))?$/;
+// Loose enough to read the common RFC 3339 mistakes; the strict rules are checked separately
+const ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})([Tt ])(\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?([Zz]|[+-]\d{2}:?\d{2})?$/;
+// W3C-DTF allows a year, month or day without a time
+const W3CDTF_DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Offsets in hours; single-letter military zones other than Z were defined with the wrong sign
+const RFC822_ZONES: Record<string, number> = {
+  ut: 0, gmt: 0, z: 0, est: -5, edt: -4, cst: -6, cdt: -5, mst: -7, mdt: -6, pst: -8, pdt: -7,
+};
+
+// An item's position in the feed is judged by its publication date, else by any other date it has
+const PUBLISHED_FIELDS = ['pubDate', 'published', 'dc:date', 'date_published'];
+
+type DateStandard = 'rfc822' | 'rfc3339' | 'w3cdtf';
+
+const STANDARD_EXAMPLES: Record<DateStandard, string> = {
+  rfc822: 'an RFC 822 date like "Wed, 02 Oct 2002 13:00:00 GMT"',
+  rfc3339: 'an RFC 3339 date like "2002-10-02T13:00:00Z"',
+  w3cdtf: 'a W3C-DTF date like "2002-10-02T13:00:00Z"',
+};
+
+/**
+ * How the feed writes its dates: the format each date element requires, timezones,
+ * dates in the future and whether items are in chronological order
+ */
+export interface DateAudit {
+  checked: number; // Date values found in the feed
+  order: 'newest-first' | 'oldest-first' | 'unordered' | null; // Null with fewer than two dated items
+  outOfOrder: number; // Items that break the order most of the feed follows
+  diagnostics: ValidationDiagnostic[];
+}
+
+interface DateValue {
+  field: string; // As written in the feed, e.g. "pubDate" or "dc:date"
+  value: string;
+  standard: DateStandard;
+  item: number | null; // 0-based item index; null for feed-level dates
+  at?: { line: number; column: number };
+}
+
+interface ParsedDate {
+  time: number | null; // Null when the value is not a date at all
+  standard: boolean; // Written the way its element requires
+  timezone: boolean;
+  weekday: string | null; // The weekday it should have said, when it named the wrong one
+}
+
+/**
+ * `root` is the parsed XML document, or null for a JSON Feed
+ */
+export function auditDates(feedContent: string, format: FeedFormat, root: XmlElement | null, now: Date = new Date()): DateAudit {
+  const { report, done } = createDiagnosticCollector(feedContent);
+  const values = format === 'json' ? collectJsonDates(feedContent) : collectXmlDates(root, format);
+
+  // Grouped by rule so a feed that writes every date the same wrong way reports it once
+  const { flag, flush } = createGroupedReporter(report, (rule) => (rule === 'date-order' ? 'items' : 'dates'));
+
+  const itemTimes = new Map<number, number>();
+  const published = new Set<number>();
+  for (const date of values) {
+    const parsed = date.standard === 'rfc822' ? parseRfc822(date.value) : parseIso(date.value, date.standard);
+    const quoted = `${date.field} "${date.value}"`;
+
+    if (parsed.time === null) {
+      flag('error', 'date-unparseable', `${quoted} is not a date readers can parse`, date.at);
+      continue;
+    }
+    if (!parsed.standard) {
+      const rule = date.standard === 'rfc822' ? 'date-rfc822' : `date-${date.standard}`;
+      flag('warning', rule, `${quoted} is not ${STANDARD_EXAMPLES[date.standard]}`, date.at);
+    }
+    if (!parsed.timezone) {
+      flag('warning', 'date-timezone', `${quoted} has no timezone, so readers have to guess one`, date.at);
+    }
+    if (parsed.weekday) {
+      flag('warning', 'date-weekday', `${quoted} names the wrong weekday; that date is a ${parsed.weekday}`, date.at);
+    }
+    if (parsed.time > now.getTime() + FUTURE_TOLERANCE_MS) {
+      flag('warning', 'date-future', `${quoted} is in the future`, date.at);
+    }
+
+    if (date.item !== null && !published.has(date.item)) {
+      itemTimes.set(date.item, parsed.time);
+      if (PUBLISHED_FIELDS.includes(date.field)) published.add(date.item);
+    }
+  }
+
+  const { order, outOfOrder } = checkOrder(values, itemTimes, flag);
+
+  flush();
+
+  return { checked: values.length, order, outOfOrder, diagnostics: done().diagnostics };
+}
+
+/**
+ * Works out the order most consecutive items follow and flags the items that break it
+ */
+function checkOrder(
+  values: DateValue[],
+  itemTimes: Map<number, number>,
+  flag: Reporter
+): Pick<DateAudit, 'order' | 'outOfOrder'> {
+  const items = Array.from(itemTimes.entries()).sort((a, b) => a[0] - b[0]);
+  if (items.length < 2) return { order: null, outOfOrder: 0 };
+
+  const newer: number[] = []; // Items newer than the dated item before them
+  const older: number[] = [];
+  for (let i = 1; i < items.length; i++) {
+    if (items[i][1] > items[i - 1][1]) newer.push(items[i][0]);
+    if (items[i][1] < items[i - 1][1]) older.push(items[i][0]);
+  }
+  if (newer.length === 0) return { order: 'newest-first', outOfOrder: 0 };
+  if (older.length === 0) return { order: 'oldest-first', outOfOrder: 0 };
+
+  const newestFirst = older.length >= newer.length;
+  const breaking = newestFirst ? newer : older;
+  for (const index of breaking) {
+    const at = values.find((date) => date.item === index)?.at;
+    flag(
+      'warning',
+      'date-order',
+      `Item #${index + 1} is ${newestFirst ? 'newer' : 'older'} than the item before it, but the feed is otherwise ${newestFirst ? 'newest' : 'oldest'} first`,
+      at
+    );
+  }
+  return { order: 'unordered', outOfOrder: breaking.length };
+}
+
+function collectXmlDates(root: XmlElement | null, format: FeedFormat): DateValue[] {
+  if (!root) return [];
+
+  let feedElement: XmlElement | null = null;
+  let items: XmlElement[] = [];
+  if (format === 'rss') {
+    feedElement = childElement(root, 'channel');
+    items = feedElement ? childElements(feedElement, 'item') : [];
+  } else if (format === 'rdf') {
+    feedElement = root.children.find((child) => child.local === 'channel') || null;
+    items = root.children.filter((child) => child.local === 'item');
+  } else if (format === 'atom') {
+    feedElement = root;
+    items = root.children.filter((child) => child.uri === root.uri && child.local === 'entry');
+  }
+
+  // RSS 2.0 and Atom date elements are in the namespace of the root element; RSS 1.0 only has dc:date
+  const names = format === 'rss' ? ['pubDate', 'lastBuildDate'] : format === 'atom' ? ['published', 'updated'] : [];
+  const standard: DateStandard = format === 'atom' ? 'rfc3339' : 'rfc822';
+  const datesOf = (element: XmlElement, item: number | null): DateValue[] =>
+    element.children
+      .filter((child) => (child.uri === DC_NAMESPACE && child.local === 'date') || (child.uri === root.uri && names.includes(child.local)))
+      .map((child) => ({
+        field: child.name,
+        value: child.text.trim(),
+        standard: child.uri === DC_NAMESPACE ? 'w3cdtf' : standard,
+        item,
+        at: child,
+      }));
+
+  return [
+    ...(feedElement ? datesOf(feedElement, null) : []),
+    ...items.flatMap((item, index) => datesOf(item, index)),
+  ];
+}
+
+function collectJsonDates(feedContent: string): DateValue[] {
+  const text = feedContent.replace(/^\uFEFF/, '');
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(data?.items)) return [];
+
+  const at = createJsonLocator(text);
+  const values: DateValue[] = [];
+  data.items.forEach((item: any, index: number) => {
+    for (const field of ['date_published', 'date_modified']) {
+      if (typeof item?.[field] === 'string') {
+        values.push({ field, value: item[field].trim(), standard: 'rfc3339', item: index, at: at(`items.${index}.${field}`) });
+      }
+    }
+  });
+  return values;
+}
+
+function parseRfc822(value: string): ParsedDate {
+  const match = value.match(RFC822_PATTERN);
+  const month = match ? MONTHS.indexOf(match[3].toLowerCase()) : -1;
+  const zone = match?.[8];
+  const named = zone === undefined ? 0 : RFC822_ZONES[zone.toLowerCase()];
+  const offset = zone && /^[+-]/.test(zone) ? parseNumericOffset(zone) : named === undefined ? undefined : named * 60;
+  if (!match || month === -1 || offset === undefined || (match[1] && !WEEKDAYS.includes(match[1].toLowerCase()))) {
+    return parseLoosely(value);
+  }
+
+  const year = match[4].length === 2 ? Number(match[4]) + (Number(match[4]) < 50 ? 2000 : 1900) : Number(match[4]);
+  const time = toTime(year, month, Number(match[2]), Number(match[5]), Number(match[6]), Number(match[7] || 0), 0, offset);
+  if (time === null) return { time: null, standard: false, timezone: false, weekday: null };
+
+  const weekday = new Date(Date.UTC(year, month, Number(match[2]))).getUTCDay();
+  const wrongWeekday = match[1] && WEEKDAYS.indexOf(match[1].toLowerCase()) !== weekday;
+  return {
+    time,
+    standard: true,
+    timezone: zone !== undefined,
+    weekday: wrongWeekday ? WEEKDAY_NAMES[weekday] : null,
+  };
+}
+
+function parseIso(value: string, standard: DateStandard): ParsedDate {
+  if (standard === 'w3cdtf' && W3CDTF_DATE_PATTERN.test(value)) {
+    // A date without a time needs no timezone
+    return { time: Date.parse(value), standard: true, timezone: true, weekday: null };
+  }
+
+  const match = value.match(ISO_PATTERN);
+  if (!match) return parseLoosely(value);
+
+  const [, year, month, day, separator, hours, minutes, seconds, fraction, zone] = match;
+  const offset = zone === undefined || /^z$/i.test(zone) ? 0 : parseNumericOffset(zone);
+  const milliseconds = fraction ? Math.round(Number(fraction) * 1000) : 0;
+  const time = toTime(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds || 0), milliseconds, offset);
+  if (time === null) return { time: null, standard: false, timezone: false, weekday: null };
+
+  // Atom requires an uppercase T and Z; RFC 3339 requires seconds and a colon in the offset
+  const strict = separator === 'T'
+    && (zone === undefined || zone === 'Z' || zone.includes(':'))
+    && (seconds !== undefined || standard === 'w3cdtf');
+  return { time, standard: strict, timezone: zone !== undefined, weekday: null };
+}
+
+/**
+ * Whatever JavaScript can still read, e.g. "2024-01-05" in an RSS pubDate
+ */
+function parseLoosely(value: string): ParsedDate {
+  const time = Date.parse(value);
+  if (isNaN(time)) return { time: null, standard: false, timezone: false, weekday: null };
+  // Without a zone name or offset at the end, JavaScript reads the date in the server's own timezone
+  const trimmed = value.trim();
+  const timezone = /^\d{4}-\d{2}-\d{2}$/.test(trimmed)
+    || (/([a-z]+|[+-]\d{2}:?\d{2})\)?$/i.test(trimmed) && !/\b[ap]\.?m\.?$/i.test(trimmed));
+  return { time, standard: false, timezone, weekday: null };
+}
+
+/**
+ * UTC milliseconds for a local time with an offset in minutes; null for dates that do not exist, e.g. 31 April
+ */
+function toTime(
+  year: number,
+  month: number,
+  day: number,
+  hours: number,
+  minutes: number,
+  seconds: number,
+  milliseconds: number,
+  offset: number
+): number | null {
+  const date = new Date(Date.UTC(year, month, day, hours, minutes, seconds, milliseconds));
+  if (date.getUTCMonth() !== month || date.getUTCDate() !== day || hours > 23 || minutes > 59 || seconds > 60) {
+    return null;
+  }
+  return date.getTime() - offset * 60 * 1000;
+}
+
+function parseNumericOffset(zone: string): number {
+  const digits = zone.replace(':', '');
+  const minutes = Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5));
+  return zone[0] === '-' ? -minutes : minutes;
+}
@@ -0,0 +1,124 @@
+import { Parser as HtmlParser } from 'htmlparser2';
+import { detectFeedFormat, FeedFormat } from './feed-format';
+import { fetchFeed } from './fetch-feed';
+
+const FEED_LINK_TYPES = ['application/rss+xml', 'application/atom+xml', 'application/feed+json', 'application/json'];
+const COMMON_FEED_PATHS = ['/feed', '/rss', '/rss.xml', '/atom.xml', '/feed.xml', '/index.xml', '/feed.json'];
+const PROBE_TIMEOUT_MS = 5000;
+
+const FORMAT_MIME_TYPES: Record<FeedFormat, string | null> = {
+  rss: 'application/rss+xml',
+  rdf: 'application/rdf+xml',
+  atom: 'application/atom+xml',
+  json: 'application/feed+json',
+  unknown: null,
+};
+
+export interface DiscoveredFeed {
+  url: string;
+  title: string | null;
+  type: string | null;
+  source: 'link' | 'probe'; // <link rel="alternate"> in the page, or a common path that answered with a feed
+}
+
+/**
+ * Whether a response is an HTML page rather than a feed.
+ * Some servers label feeds text/html, so the header alone is not trusted.
+ */
+export function isHtmlDocument(content: string, contentType?: string | null): boolean {
+  if (/^(\s|\uFEFF)*(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html[\s>])/i.test(content)) {
+    return true;
+  }
+  return /text\/html|application\/xhtml\+xml/i.test(contentType || '') && detectFeedFormat(content) === 'unknown';
+}
+
+/**
+ * Extracts <link rel="alternate"> feed candidates from an HTML page, honouring <base href>
+ */
+export function extractFeedLinks(html: string, pageUrl: string): DiscoveredFeed[] {
+  let baseUrl = pageUrl;
+  const links: Array<{ href: string; title: string | null; type: string }> = [];
+
+  const parser = new HtmlParser(
+    {
+      onopentag(name, attributes) {
+        if (name === 'base' && attributes.href) {
+          try {
+            baseUrl = new URL(attributes.href, pageUrl).toString();
+          } catch {
+            // Ignore an unusable <base>; relative links resolve against the page URL
+          }
+        }
+        if (name !== 'link' || !attributes.href) return;
+
+        const rel = (attributes.rel || '').toLowerCase().split(/\s+/);
+        const type = (attributes.type || '').toLowerCase().split(';')[0].trim();
+        if (rel.includes('alternate') && FEED_LINK_TYPES.includes(type)) {
+          links.push({ href: attributes.href, title: attributes.title || null, type });
+        }
+      },
+    },
+    { decodeEntities: true }
+  );
+  parser.write(html);
+  parser.end();
+
+  const seen = new Set<string>();
+  const feeds: DiscoveredFeed[] = [];
+  for (const link of links) {
+    let url: string;
+    try {
+      url = new URL(link.href, baseUrl).toString();
+    } catch {
+      continue;
+    }
+    if (seen.has(url)) continue;
+    seen.add(url);
+    feeds.push({ url, title: link.title, type: link.type, source: 'link' });
+  }
+  return feeds;
+}
+
+/**
+ * Requests common feed paths on the page's origin and keeps the ones that answer with a feed
+ */
+export async function probeCommonFeedPaths(pageUrl: string, exclude: Set<string> = new Set()): Promise<DiscoveredFeed[]> {
+  const origin = new URL(pageUrl).origin;
+  const candidates = COMMON_FEED_PATHS.map((path) => `${origin}${path}`).filter((url) => !exclude.has(url));
+
+  const results = await Promise.all(
+    candidates.map(async (url): Promise<DiscoveredFeed | null> => {
+      try {
+        const fetched = await fetchFeed(url, { timeoutMs: PROBE_TIMEOUT_MS, maxRedirects: 3 });
+        const content = fetched.body.toString('utf8');
+        const contentType = fetched.headers['content-type'];
+        if (isHtmlDocument(content, contentType)) return null;
+
+        const format = detectFeedFormat(content, contentType);
+        if (format === 'unknown') return null;
+        return { url: fetched.finalUrl, title: null, type: FORMAT_MIME_TYPES[format], source: 'probe' };
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  // Several paths often redirect to the same feed
+  const seen = new Set(exclude);
+  const feeds: DiscoveredFeed[] = [];
+  for (const feed of results) {
+    if (!feed || seen.has(feed.url)) continue;
+    seen.add(feed.url);
+    feeds.push(feed);
+  }
+  return feeds;
+}
+
+/**
+ * Finds feeds for an HTML page: advertised <link> tags first, then common paths
+ */
+export async function discoverFeeds(html: string, pageUrl: string): Promise<DiscoveredFeed[]> {
+  const linked = extractFeedLinks(html, pageUrl);
+  const probed = await probeCommonFeedPaths(pageUrl, new Set(linked.map((feed) => feed.url)));
+  return [...linked, ...probed];
+}
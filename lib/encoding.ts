@@ -0,0 +1,186 @@
+import { FeedItem, getItemContent } from './item-analysis';
+
+// UTF-8 lead bytes followed by continuation bytes, as they appear after windows-1252 decoding
+const MOJIBAKE_PATTERN =
+  /[\u00C2-\u00F4][\u0080-\u00BF\u20AC\u201A\u0192\u201E\u2026\u2020\u2021\u02C6\u2030\u0160\u2039\u0152\u017D\u2018\u2019\u201C\u201D\u2022\u2013\u2014\u02DC\u2122\u0161\u203A\u0153\u017E\u0178]/;
+const MAX_AFFECTED_ITEMS = 20;
+
+// windows-1252 characters for bytes 0x80-0x9F; undefined bytes keep their C1 code point
+const WINDOWS_1252_C1 =
+  '\u20AC\u0081\u201A\u0192\u201E\u2026\u2020\u2021\u02C6\u2030\u0160\u2039\u0152\u008D\u017D\u008F' +
+  '\u0090\u2018\u2019\u201C\u201D\u2022\u2013\u2014\u02DC\u2122\u0161\u203A\u0153\u009D\u017E\u0178';
+
+export interface EncodingIssue {
+  index: number; // 0-based position of the item in the feed
+  title: string | null;
+  issue: 'invalid-bytes' | 'mojibake';
+  sample: string; // Text around the first problem
+}
+
+/**
+ * The encodings a fetched feed declares, the one used to decode it, and what went wrong
+ */
+export interface EncodingReport {
+  bom: string | null;
+  xmlDeclaration: string | null;
+  httpCharset: string | null;
+  used: string; // WHATWG name, e.g. "windows-1252" for ISO-8859-1
+  invalidSequences: number; // Replacement characters produced while decoding
+  firstInvalidLine: number | null;
+  warnings: string[];
+  affectedItems: EncodingIssue[];
+}
+
+export interface DecodedBody {
+  text: string;
+  encoding: EncodingReport;
+}
+
+/**
+ * Decodes feed bytes the way XML over HTTP says to (RFC 7303): a byte order mark wins,
+ * then the Content-Type charset, then the XML declaration, then UTF-8.
+ * Disagreements between the three and bytes that are invalid in the chosen encoding are reported.
+ */
+export function decodeFeedBody(body: Buffer, contentType: string | null): DecodedBody {
+  const warnings: string[] = [];
+  const bom = detectBom(body);
+  const httpCharset = contentType?.match(/charset\s*=\s*"?([^";\s]+)/i)?.[1] || null;
+  const xmlDeclaration = getDeclaredEncoding(body, bom);
+
+  const bomName = canonicalEncoding(bom);
+  const httpName = canonicalEncoding(httpCharset);
+  const declarationName = canonicalEncoding(xmlDeclaration);
+  if (httpCharset && !httpName) warnings.push(`Content-Type charset "${httpCharset}" is not a known encoding`);
+  if (xmlDeclaration && !declarationName) warnings.push(`XML declaration encoding "${xmlDeclaration}" is not a known encoding`);
+
+  if (bomName && httpName && !sameEncoding(bomName, httpName)) {
+    warnings.push(`Byte order mark says ${bom} but the Content-Type charset says ${httpCharset}`);
+  }
+  if (bomName && declarationName && !sameEncoding(bomName, declarationName)) {
+    warnings.push(`Byte order mark says ${bom} but the XML declaration says ${xmlDeclaration}`);
+  }
+  if (httpName && declarationName && !sameEncoding(httpName, declarationName)) {
+    warnings.push(
+      `Content-Type charset ${httpCharset} does not match the XML declaration ${xmlDeclaration}; ` +
+      'the header wins, but parsers that ignore it will decode the feed differently'
+    );
+  }
+
+  const used = bomName || httpName || declarationName || 'utf-8';
+  let text: string;
+  let invalidSequences = 0;
+  let firstInvalid = -1;
+  try {
+    text = decode(body, used, true);
+  } catch {
+    // Decode again leniently to count and locate the bad sequences
+    text = decode(body, used, false);
+    invalidSequences = (text.match(/\uFFFD/g) || []).length;
+    firstInvalid = text.indexOf('\uFFFD');
+  }
+  if (invalidSequences > 0) {
+    warnings.push(
+      `${invalidSequences} byte sequence${invalidSequences > 1 ? 's are' : ' is'} not valid ${used} ` +
+      `and ${invalidSequences > 1 ? 'were' : 'was'} replaced with U+FFFD`
+    );
+  }
+  if (!bom && !httpCharset && !xmlDeclaration && invalidSequences > 0) {
+    warnings.push('No encoding is declared anywhere, so readers will assume UTF-8');
+  }
+  if (used !== 'utf-8' && !isAscii(body) && isValidUtf8(body)) {
+    warnings.push(`Decoded as ${used}, but the bytes are valid UTF-8; the declared encoding is probably wrong`);
+  }
+
+  return {
+    text,
+    encoding: {
+      bom,
+      xmlDeclaration,
+      httpCharset,
+      used,
+      invalidSequences,
+      firstInvalidLine: firstInvalid >= 0 ? text.slice(0, firstInvalid).split('\n').length : null,
+      warnings,
+      affectedItems: [],
+    },
+  };
+}
+
+function decode(body: Buffer, encoding: string, fatal: boolean): string {
+  const text = new TextDecoder(encoding, { fatal }).decode(body);
+  // Some Node versions decode windows-1252 as ISO-8859-1, leaving curly quotes and dashes as C1 controls
+  return encoding === 'windows-1252'
+    ? text.replace(/[\u0080-\u009F]/g, (char) => WINDOWS_1252_C1[char.charCodeAt(0) - 0x80])
+    : text;
+}
+
+/**
+ * Items whose text contains replacement characters or UTF-8 read as windows-1252
+ */
+export function findEncodingIssues(items: FeedItem[]): EncodingIssue[] {
+  const issues: EncodingIssue[] = [];
+  for (let index = 0; index < items.length && issues.length < MAX_AFFECTED_ITEMS; index++) {
+    const item = items[index];
+    const text = [item.title, item.summary, getItemContent(item)].filter(Boolean).join(' ');
+    const invalidAt = text.indexOf('\uFFFD');
+    const mojibake = invalidAt < 0 ? text.match(MOJIBAKE_PATTERN) : null;
+    const at = invalidAt >= 0 ? invalidAt : mojibake?.index;
+    if (at === undefined) continue;
+
+    issues.push({
+      index,
+      title: item.title || null,
+      issue: invalidAt >= 0 ? 'invalid-bytes' : 'mojibake',
+      sample: text.slice(Math.max(0, at - 30), at + 30).replace(/\s+/g, ' ').trim(),
+    });
+  }
+  return issues;
+}
+
+function detectBom(body: Buffer): string | null {
+  if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) return 'UTF-8';
+  if (body[0] === 0xff && body[1] === 0xfe) return 'UTF-16LE';
+  if (body[0] === 0xfe && body[1] === 0xff) return 'UTF-16BE';
+  return null;
+}
+
+function getDeclaredEncoding(body: Buffer, bom: string | null): string | null {
+  // The declaration is ASCII, so only UTF-16 needs decoding before it can be read
+  const head = bom?.startsWith('UTF-16')
+    ? new TextDecoder(bom).decode(body.subarray(0, 400))
+    : body.subarray(bom ? 3 : 0, 200).toString('latin1');
+  const match = head.match(/^\s*<\?xml[^>]*\bencoding\s*=\s*["']([^"']+)["']/);
+  return match ? match[1] : null;
+}
+
+/**
+ * The WHATWG name for an encoding label, or null when it is unknown
+ */
+function canonicalEncoding(label: string | null): string | null {
+  if (!label) return null;
+  try {
+    return new TextDecoder(label).encoding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * "UTF-16" in a declaration names no byte order, so it agrees with either UTF-16 BOM
+ */
+function sameEncoding(a: string, b: string): boolean {
+  return a === b || (a.startsWith('utf-16') && b.startsWith('utf-16'));
+}
+
+function isAscii(body: Buffer): boolean {
+  return body.every((byte) => byte < 0x80);
+}
+
+function isValidUtf8(body: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(body);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,113 @@
+import { NetworkPolicyError } from './network-policy';
+
+export type AnalysisErrorCode =
+  | 'INVALID_URL'
+  | 'DNS_FAILURE'
+  | 'CONNECTION_FAILED'
+  | 'TLS_ERROR'
+  | 'TIMEOUT'
+  | 'HTTP_STATUS'
+  | 'TOO_MANY_REDIRECTS'
+  | 'TOO_LARGE'
+  | 'BLOCKED_BY_POLICY'
+  | 'NOT_A_FEED' // An HTML page or XML document that is not a feed
+  | 'NOT_XML'
+  | 'PARSE_ERROR'
+  | 'VALIDATION_FAILED'
+  | 'UNKNOWN';
+
+/**
+ * Whatever is known about a failure; only the fields relevant to the code are set
+ */
+export interface AnalysisErrorDetails {
+  url?: string;
+  host?: string;
+  status?: number;
+  statusText?: string;
+  systemCode?: string; // Node error code, e.g. ENOTFOUND or CERT_HAS_EXPIRED
+  policyReason?: string;
+  limitBytes?: number;
+  maxRedirects?: number;
+}
+
+/**
+ * A failure with a stable code the UI can key troubleshooting hints on
+ */
+export class AnalysisError extends Error {
+  code: AnalysisErrorCode;
+  details: AnalysisErrorDetails;
+
+  constructor(code: AnalysisErrorCode, message: string, details: AnalysisErrorDetails = {}) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+const DNS_ERROR_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'EAI_FAIL', 'EAI_NODATA', 'EAI_NONAME'];
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE', 'ECONNABORTED'];
+const TLS_ERROR_CODES = [
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+];
+
+function hostOf(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Classifies anything thrown while fetching or parsing; `url` fills in the host when the error lacks one
+ */
+export function toAnalysisError(error: any, url?: string): AnalysisError {
+  if (error instanceof AnalysisError) return error;
+
+  const host: string | undefined = error?.hostname || error?.host || hostOf(url);
+
+  if (error instanceof NetworkPolicyError) {
+    const details = { url, host: error.host || host, policyReason: error.reason };
+    return error.reason === 'too-large'
+      ? new AnalysisError('TOO_LARGE', error.message, details)
+      : new AnalysisError('BLOCKED_BY_POLICY', error.message, details);
+  }
+
+  const systemCode: string | undefined = typeof error?.code === 'string' ? error.code : undefined;
+  const message: string = error?.message || 'Failed to parse RSS feed';
+
+  if (systemCode && DNS_ERROR_CODES.includes(systemCode)) {
+    return new AnalysisError('DNS_FAILURE', `Could not resolve ${host || 'the feed host'}. Please check if the URL is correct.`, {
+      url,
+      host,
+      systemCode,
+    });
+  }
+  if (systemCode && CONNECTION_ERROR_CODES.includes(systemCode)) {
+    return new AnalysisError('CONNECTION_FAILED', `Could not connect to ${host || 'the feed host'} (${systemCode})`, {
+      url,
+      host,
+      systemCode,
+    });
+  }
+  if (systemCode && (TLS_ERROR_CODES.includes(systemCode) || systemCode.startsWith('ERR_SSL_') || systemCode.startsWith('ERR_TLS_'))) {
+    return new AnalysisError('TLS_ERROR', `TLS handshake with ${host || 'the feed host'} failed: ${message}`, {
+      url,
+      host,
+      systemCode,
+    });
+  }
+  if (systemCode === 'ETIMEDOUT') {
+    return new AnalysisError('TIMEOUT', 'Request timed out. The feed may be slow or unavailable.', { url, host, systemCode });
+  }
+
+  return new AnalysisError('UNKNOWN', message, { url, host, systemCode });
+}
@@ -0,0 +1,155 @@
+import type { FeedAnalysis } from './analyze';
+import type { ItemAnalysis } from './item-analysis';
+import type { FeedSnapshot } from './monitor-store';
+
+/**
+ * The parts of an item kept for comparing snapshots
+ */
+export interface ItemFingerprint {
+  key: string; // GUID, else link, else title; duplicates get a #n suffix
+  guid: string | null;
+  title: string | null;
+  link: string | null;
+  pubDate: string | null;
+  fields: string[];
+  contentHash: string;
+}
+
+/**
+ * One side of a comparison: a live analysis or a stored snapshot
+ */
+export interface ComparableFeed {
+  label: string; // e.g. "Snapshot of 3/1/2025, 10:00:00" or "Pasted XML"
+  feedType: string | null;
+  availableFields: string[];
+  items: ItemFingerprint[];
+}
+
+export interface ItemFieldChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface ChangedItem {
+  key: string;
+  title: string | null;
+  changes: ItemFieldChange[]; // Edited values; for content only the fact that it changed
+  fieldsAdded: string[];
+  fieldsRemoved: string[];
+}
+
+export interface FeedDiff {
+  before: { label: string; itemCount: number };
+  after: { label: string; itemCount: number };
+  feedType: { before: string | null; after: string | null } | null; // Null when unchanged
+  fieldsAdded: string[];
+  fieldsRemoved: string[];
+  itemsAdded: ItemFingerprint[];
+  itemsRemoved: ItemFingerprint[];
+  itemsChanged: ChangedItem[];
+  itemsUnchanged: number;
+}
+
+/**
+ * Reduces analyzed items to fingerprints keyed by GUID
+ */
+export function fingerprintItems(items: ItemAnalysis[]): ItemFingerprint[] {
+  const seen = new Map<string, number>();
+  return items.map((item) => {
+    const baseKey = item.guid || item.link || item.title || `#${item.index + 1}`;
+    const occurrence = (seen.get(baseKey) || 0) + 1;
+    seen.set(baseKey, occurrence);
+
+    return {
+      key: occurrence > 1 ? `${baseKey}#${occurrence}` : baseKey,
+      guid: item.guid,
+      title: item.title,
+      link: item.link,
+      pubDate: item.pubDate,
+      fields: item.fields,
+      contentHash: item.contentHash,
+    };
+  });
+}
+
+export function toComparableFeed(analysis: FeedAnalysis, label: string): ComparableFeed {
+  return {
+    label,
+    feedType: analysis.feedType || null,
+    availableFields: analysis.availableFields,
+    items: fingerprintItems(analysis.items || []),
+  };
+}
+
+/**
+ * A stored monitor snapshot as one side of a comparison; null when it no longer has item details
+ */
+export function snapshotToComparableFeed(snapshot: FeedSnapshot): ComparableFeed | null {
+  if (!snapshot.items) return null;
+  return {
+    label: `Snapshot of ${snapshot.checkedAt}`,
+    feedType: snapshot.feedType,
+    availableFields: snapshot.availableFields,
+    items: snapshot.items,
+  };
+}
+
+function difference(values: string[], remove: string[]): string[] {
+  const removed = new Set(remove);
+  return values.filter((value) => !removed.has(value));
+}
+
+function compareItems(before: ItemFingerprint, after: ItemFingerprint): ChangedItem | null {
+  const changes: ItemFieldChange[] = [];
+  for (const field of ['title', 'link', 'pubDate'] as const) {
+    if (before[field] !== after[field]) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  }
+  if (before.contentHash !== after.contentHash) {
+    changes.push({ field: 'content', before: null, after: null });
+  }
+  const fieldsAdded = difference(after.fields, before.fields);
+  const fieldsRemoved = difference(before.fields, after.fields);
+
+  if (changes.length === 0 && fieldsAdded.length === 0 && fieldsRemoved.length === 0) return null;
+  return { key: after.key, title: after.title || before.title, changes, fieldsAdded, fieldsRemoved };
+}
+
+/**
+ * Items added, removed and edited (matched by GUID), plus feed-level field and type changes
+ */
+export function diffFeeds(before: ComparableFeed, after: ComparableFeed): FeedDiff {
+  const beforeItems = new Map(before.items.map((item) => [item.key, item]));
+  const afterKeys = new Set(after.items.map((item) => item.key));
+
+  const itemsAdded: ItemFingerprint[] = [];
+  const itemsChanged: ChangedItem[] = [];
+  let itemsUnchanged = 0;
+  for (const item of after.items) {
+    const previous = beforeItems.get(item.key);
+    if (!previous) {
+      itemsAdded.push(item);
+      continue;
+    }
+    const changed = compareItems(previous, item);
+    if (changed) {
+      itemsChanged.push(changed);
+    } else {
+      itemsUnchanged++;
+    }
+  }
+
+  return {
+    before: { label: before.label, itemCount: before.items.length },
+    after: { label: after.label, itemCount: after.items.length },
+    feedType: before.feedType !== after.feedType ? { before: before.feedType, after: after.feedType } : null,
+    fieldsAdded: difference(after.availableFields, before.availableFields),
+    fieldsRemoved: difference(before.availableFields, after.availableFields),
+    itemsAdded,
+    itemsRemoved: before.items.filter((item) => !afterKeys.has(item.key)),
+    itemsChanged,
+    itemsUnchanged,
+  };
+}
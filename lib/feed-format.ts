@@ -0,0 +1,79 @@
+import type Parser from 'rss-parser';
+import { JSON_FEED_VERSIONS } from './json-feed';
+
+export type FeedFormat = 'rss' | 'rdf' | 'atom' | 'json' | 'unknown';
+
+/**
+ * Sniffs the feed format from the Content-Type header and the document's root element.
+ * This only routes the document to the right validator; the validators do the strict checks.
+ */
+export function detectFeedFormat(content: string, contentType?: string | null): FeedFormat {
+  const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+
+  if (trimmed.startsWith('{') || /[/+]json\b/i.test(contentType || '')) {
+    return 'json';
+  }
+
+  // First element name after the prolog, comments and doctype
+  const rootMatch = trimmed.match(/<([A-Za-z_][\w.:-]*)/);
+  const rootName = rootMatch ? rootMatch[1] : '';
+  const localName = rootName.split(':').pop();
+
+  if (rootName === 'rss') return 'rss';
+  if (localName === 'RDF') return 'rdf';
+  if (localName === 'feed') return 'atom';
+  return 'unknown';
+}
+
+/**
+ * Human-readable feed type, including the version where the format declares one
+ */
+export function describeFeedType(format: FeedFormat, content: string): string {
+  switch (format) {
+    case 'rss': {
+      const rssMatch = content.match(/<rss[^>]*version=["']([^"']+)["']/i);
+      if (rssMatch && rssMatch[1]) {
+        return rssMatch[1] === '2.0' ? 'RSS 2.0' : `RSS ${rssMatch[1]}`;
+      }
+      return 'RSS 2.0'; // Default assumption
+    }
+    case 'rdf':
+      return 'RSS 1.0 (RDF)';
+    case 'atom':
+      return 'Atom';
+    case 'json': {
+      const versionMatch = content.match(/"version"\s*:\s*"([^"]+)"/);
+      const version = versionMatch ? JSON_FEED_VERSIONS[versionMatch[1]] : undefined;
+      return version ? `JSON Feed ${version}` : 'JSON Feed';
+    }
+    default:
+      return 'Unknown';
+  }
+}
+
+/**
+ * rss-parser reads RSS 1.0 dates from dc:date and identifiers from rdf:about;
+ * copy them into pubDate and guid so the analysis treats RDF items like RSS 2.0 items
+ */
+export function normalizeRdfFeed(feed: Parser.Output<any>): void {
+  for (const item of feed.items || []) {
+    if (!item.pubDate && item.date) {
+      item.pubDate = item.date;
+    }
+    if (!item.guid && item['rdf:about']) {
+      item.guid = item['rdf:about'];
+    }
+  }
+}
+
+/**
+ * rss-parser keeps an Atom entry's <id> as `id`; copy it into guid so
+ * duplicate detection and snapshot diffs match Atom entries by identifier
+ */
+export function normalizeAtomFeed(feed: Parser.Output<any>): void {
+  for (const item of feed.items || []) {
+    if (!item.guid && item.id) {
+      item.guid = item.id;
+    }
+  }
+}
@@ -0,0 +1,321 @@
+import http from 'node:http';
+import https from 'node:https';
+import zlib from 'node:zlib';
+import { AnalysisError } from './errors';
+import { checkUrl, createPolicyLookup, getNetworkPolicy, NetworkPolicy, NetworkPolicyError } from './network-policy';
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_MAX_REDIRECTS = 5;
+const USER_AGENT = 'Mozilla/5.0 (compatible; RSS Feed Validator)';
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string;
+}
+
+/**
+ * Millisecond timings for the final request; `total` also covers any redirects before it.
+ * Phases are null when they did not happen (e.g. no TLS for plain HTTP).
+ */
+export interface FetchTiming {
+  dns: number | null;
+  connect: number | null;
+  tls: number | null;
+  ttfb: number;
+  download: number;
+  total: number;
+}
+
+export interface FetchedFeed {
+  url: string;
+  finalUrl: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: Buffer; // Raw bytes after content-encoding is removed
+  redirects: RedirectHop[];
+  timing: FetchTiming;
+}
+
+/**
+ * The HTTP exchange as reported in the analysis response (everything but the body)
+ */
+export interface FetchInfo {
+  finalUrl: string;
+  status: number;
+  contentType: string | null;
+  byteLength: number;
+  headers: Record<string, string>;
+  redirects: RedirectHop[];
+  timing: FetchTiming;
+}
+
+export interface FetchFeedOptions {
+  timeoutMs?: number;
+  maxRedirects?: number;
+  headers?: Record<string, string>;
+  policy?: NetworkPolicy; // Defaults to the deployment policy from the environment
+  allowNotModified?: boolean; // Return a 304 instead of failing, for conditional requests
+  method?: 'GET' | 'HEAD'; // HEAD checks a URL without downloading it; the body is then empty
+  maxBodyBytes?: number; // Stop reading once this many bytes arrived and return them, e.g. an image header
+}
+
+interface HopResult {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: Buffer;
+  timing: Omit<FetchTiming, 'total'>;
+}
+
+/**
+ * Fetches a feed once and keeps everything later stages need:
+ * the raw bytes, headers, status, redirect chain and timings.
+ * Every hop, redirects included, is checked against the network policy.
+ */
+export async function fetchFeed(url: string, options: FetchFeedOptions = {}): Promise<FetchedFeed> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const policy = options.policy ?? getNetworkPolicy();
+  const startedAt = Date.now();
+  const redirects: RedirectHop[] = [];
+  let currentUrl = new URL(url);
+
+  while (true) {
+    const remainingMs = timeoutMs - (Date.now() - startedAt);
+    if (remainingMs <= 0) {
+      throw timedOut(currentUrl);
+    }
+
+    const hop = await requestOnce(currentUrl, remainingMs, policy, options.headers, options.method, options.maxBodyBytes);
+    const location = hop.headers['location'];
+
+    if (hop.status >= 300 && hop.status < 400 && location) {
+      if (redirects.length >= maxRedirects) {
+        throw new AnalysisError('TOO_MANY_REDIRECTS', `Too many redirects (more than ${maxRedirects})`, {
+          url,
+          host: currentUrl.hostname,
+          maxRedirects,
+        });
+      }
+      const nextUrl = new URL(location, currentUrl);
+      redirects.push({ url: currentUrl.toString(), status: hop.status, location: nextUrl.toString() });
+      currentUrl = nextUrl;
+      continue;
+    }
+
+    const notModified = hop.status === 304 && options.allowNotModified;
+    if ((hop.status < 200 || hop.status >= 300) && !notModified) {
+      throw new AnalysisError('HTTP_STATUS', `HTTP ${hop.status}: ${hop.statusText}`, {
+        url: currentUrl.toString(),
+        host: currentUrl.hostname,
+        status: hop.status,
+        statusText: hop.statusText,
+      });
+    }
+
+    return {
+      url,
+      finalUrl: currentUrl.toString(),
+      status: hop.status,
+      statusText: hop.statusText,
+      headers: hop.headers,
+      body: hop.body,
+      redirects,
+      timing: { ...hop.timing, total: Date.now() - startedAt },
+    };
+  }
+}
+
+export function summarizeFetch(fetched: FetchedFeed): FetchInfo {
+  return {
+    finalUrl: fetched.finalUrl,
+    status: fetched.status,
+    contentType: fetched.headers['content-type'] || null,
+    byteLength: fetched.body.length,
+    headers: fetched.headers,
+    redirects: fetched.redirects,
+    timing: fetched.timing,
+  };
+}
+
+/**
+ * The full size of a resource from its response headers, also for a 206 answer to a range request
+ */
+export function getContentLength(headers: Record<string, string>): number | null {
+  const total = headers['content-range']?.match(/\/(\d+)$/);
+  if (total) return Number(total[1]);
+  const length = Number(headers['content-length']);
+  return headers['content-length'] !== undefined && !isNaN(length) ? length : null;
+}
+
+/**
+ * Performs a single request without following redirects, on a fresh socket so
+ * DNS and connect timings are always measured.
+ */
+function requestOnce(
+  url: URL,
+  timeoutMs: number,
+  policy: NetworkPolicy,
+  extraHeaders: Record<string, string> = {},
+  method: 'GET' | 'HEAD' = 'GET',
+  maxBodyBytes?: number
+): Promise<HopResult> {
+  try {
+    checkUrl(url, policy);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  const transport = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    let dnsAt: number | null = null;
+    let connectAt: number | null = null;
+    let tlsAt: number | null = null;
+    let firstByteAt: number | null = null;
+    let finished = false;
+
+    const request = transport.request(
+      url,
+      {
+        method,
+        agent: false,
+        lookup: createPolicyLookup(policy),
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.8',
+          'Accept-Encoding': 'gzip, deflate, br',
+          ...extraHeaders,
+        },
+      },
+      (response) => {
+        firstByteAt = Date.now();
+        const chunks: Buffer[] = [];
+        let received = 0;
+
+        // A HEAD response declares the size of a body it does not send, and a capped read never downloads it all
+        const declaredLength = Number(response.headers['content-length']);
+        if (method === 'GET' && maxBodyBytes === undefined && declaredLength > policy.maxResponseBytes) {
+          request.destroy(tooLarge(declaredLength, policy.maxResponseBytes));
+          return;
+        }
+
+        response.on('data', (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > policy.maxResponseBytes) {
+            request.destroy(tooLarge(received, policy.maxResponseBytes));
+            return;
+          }
+          chunks.push(chunk);
+          if (maxBodyBytes !== undefined && received >= maxBodyBytes) {
+            // The caller has what it needs; drop the connection instead of downloading the rest
+            response.destroy();
+            finish();
+          }
+        });
+        response.on('error', fail);
+        response.on('end', finish);
+
+        function finish() {
+          if (finished) return;
+          finished = true;
+          clearTimeout(timer);
+          const headers: Record<string, string> = {};
+          for (const [name, value] of Object.entries(response.headers)) {
+            if (value !== undefined) {
+              headers[name] = Array.isArray(value) ? value.join(', ') : value;
+            }
+          }
+
+          let body: Buffer = Buffer.concat(chunks);
+          try {
+            // HEAD and 304 responses carry the encoding header but no body to decode
+            if (body.length > 0) {
+              body = decodeContentEncoding(body, headers['content-encoding'], policy.maxResponseBytes);
+            }
+          } catch (error: any) {
+            if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+              reject(tooLarge(null, policy.maxResponseBytes));
+              return;
+            }
+            reject(new Error(`Failed to decode ${headers['content-encoding']} response: ${error.message}`));
+            return;
+          }
+
+          const doneAt = Date.now();
+          resolve({
+            status: response.statusCode || 0,
+            statusText: response.statusMessage || '',
+            headers,
+            body,
+            timing: {
+              dns: dnsAt !== null ? dnsAt - startedAt : null,
+              connect: connectAt !== null ? connectAt - (dnsAt ?? startedAt) : null,
+              tls: tlsAt !== null && connectAt !== null ? tlsAt - connectAt : null,
+              ttfb: (firstByteAt ?? doneAt) - startedAt,
+              download: doneAt - (firstByteAt ?? doneAt),
+            },
+          });
+        }
+      }
+    );
+
+    function fail(error: Error) {
+      clearTimeout(timer);
+      reject(error);
+    }
+
+    const timer = setTimeout(() => {
+      request.destroy(timedOut(url));
+    }, timeoutMs);
+
+    request.on('socket', (socket) => {
+      socket.once('lookup', () => { dnsAt = Date.now(); });
+      socket.once('connect', () => { connectAt = Date.now(); });
+      socket.once('secureConnect', () => { tlsAt = Date.now(); });
+    });
+    request.on('error', fail);
+    request.end();
+  });
+}
+
+function timedOut(url: URL): AnalysisError {
+  return new AnalysisError('TIMEOUT', 'Request timed out. The feed may be slow or unavailable.', {
+    url: url.toString(),
+    host: url.hostname,
+  });
+}
+
+function tooLarge(bytes: number | null, limit: number): NetworkPolicyError {
+  const size = bytes !== null ? `${bytes.toLocaleString('en-US')} bytes` : 'the decompressed body';
+  return new NetworkPolicyError(
+    'too-large',
+    `Blocked by network policy: response is too large (${size}, limit is ${limit.toLocaleString('en-US')} bytes)`
+  );
+}
+
+/**
+ * Removes gzip/deflate/br content-encoding so callers always see the document bytes.
+ * The decompressed size is capped too, so a small compressed body cannot expand without bound.
+ */
+function decodeContentEncoding(body: Buffer, encoding: string | undefined, maxOutputLength: number): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.gunzipSync(body, { maxOutputLength });
+    case 'deflate':
+      // Some servers send raw deflate without the zlib wrapper
+      try {
+        return zlib.inflateSync(body, { maxOutputLength });
+      } catch (error: any) {
+        if (error.code === 'ERR_BUFFER_TOO_LARGE') throw error;
+        return zlib.inflateRawSync(body, { maxOutputLength });
+      }
+    case 'br':
+      return zlib.brotliDecompressSync(body, { maxOutputLength });
+    default:
+      return body;
+  }
+}
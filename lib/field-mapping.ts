@@ -0,0 +1,122 @@
+import type { FieldCoverage, SourceValue } from './item-analysis';
+
+/**
+ * How feed item fields fill an importer's record. The mapping page applies a mapping to the
+ * sample values it already has, so the preview follows every edit without a request.
+ */
+export const MAPPING_TARGETS = [
+  'title',
+  'body',
+  'summary',
+  'image',
+  'author',
+  'link',
+  'publishedAt',
+  'guid',
+  'categories',
+] as const;
+
+export type MappingTarget = typeof MAPPING_TARGETS[number];
+
+// Source fields per target, in order of preference: the first one an item has wins
+export type FieldMapping = Record<MappingTarget, string[]>;
+
+export type NormalizedRecord = Record<MappingTarget, SourceValue | null>;
+
+/**
+ * The mapping as exported for an importer to load
+ */
+export interface MappingExport {
+  version: 1;
+  feedUrl: string | null;
+  mapping: FieldMapping;
+}
+
+/**
+ * What POST /api/mapping returns for a feed
+ */
+export interface MappingSource {
+  title: string | null;
+  finalUrl: string | null; // Null for pasted content
+  availableFields: string[];
+  fieldCoverage: FieldCoverage[];
+  sourceFields: string[]; // Item fields present in the feed plus the parser's custom fields
+  sourceItems: Array<Record<string, SourceValue>>;
+  records?: NormalizedRecord[]; // Only when the request included a mapping
+}
+
+export const MAX_SAMPLE_ITEMS = 20;
+
+// Fields rss-parser renames, shown with the element they come from
+export const SOURCE_FIELD_LABELS: Record<string, string> = {
+  creator: 'dc:creator',
+  contentSnippet: 'content (plain text)',
+};
+
+const SUGGESTED_SOURCES: FieldMapping = {
+  title: ['title'],
+  body: ['content:encoded', 'content', 'description'],
+  summary: ['contentSnippet', 'description'],
+  image: ['media:content', 'media:thumbnail', 'enclosure', 'image'],
+  author: ['creator', 'author'],
+  link: ['link'],
+  publishedAt: ['pubDate'],
+  guid: ['guid', 'link'],
+  categories: ['categories'],
+};
+
+/**
+ * A starting mapping from the fields the feed actually has; keeps a fallback for each target
+ */
+export function suggestMapping(availableFields: string[]): FieldMapping {
+  const mapping = {} as FieldMapping;
+  for (const target of MAPPING_TARGETS) {
+    mapping[target] = SUGGESTED_SOURCES[target].filter((field) => availableFields.includes(field)).slice(0, 2);
+  }
+  return mapping;
+}
+
+/**
+ * Builds the record an importer would store for one item
+ */
+export function applyMapping(values: Record<string, SourceValue>, mapping: FieldMapping): NormalizedRecord {
+  const record = {} as NormalizedRecord;
+  for (const target of MAPPING_TARGETS) {
+    const source = mapping[target].find((field) => values[field] !== undefined);
+    record[target] = source ? normalizeValue(target, values[source]) : null;
+  }
+  return record;
+}
+
+function normalizeValue(target: MappingTarget, value: SourceValue): SourceValue {
+  if (target === 'categories') {
+    return Array.isArray(value) ? value : [value];
+  }
+  const text = Array.isArray(value) ? value.join(', ') : value;
+  if (target === 'publishedAt') {
+    // Importers expect one date format whatever the feed uses
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? text : date.toISOString();
+  }
+  return target === 'body' ? text : text.trim();
+}
+
+export function exportMapping(mapping: FieldMapping, feedUrl: string | null): MappingExport {
+  return { version: 1, feedUrl, mapping };
+}
+
+/**
+ * Checks an untrusted mapping, e.g. an uploaded export; returns null when it is not usable
+ */
+export function parseFieldMapping(value: any): FieldMapping | null {
+  const source = value?.version === 1 ? value.mapping : value;
+  if (!source || typeof source !== 'object') return null;
+
+  const mapping = {} as FieldMapping;
+  for (const target of MAPPING_TARGETS) {
+    const fields = source[target] ?? [];
+    if (!Array.isArray(fields) || !fields.every((field) => typeof field === 'string')) return null;
+    mapping[target] = fields;
+  }
+  return mapping;
+}
@@ -0,0 +1,171 @@
+import { FeedFormat } from './feed-format';
+import { fetchFeed, FetchedFeed } from './fetch-feed';
+import { childElement, XmlElement } from './xml';
+
+export const SYNDICATION_NAMESPACE = 'http://purl.org/rss/1.0/modules/syndication/';
+const CONDITIONAL_TIMEOUT_MS = 10000;
+
+const UPDATE_PERIOD_MINUTES: Record<string, number> = {
+  hourly: 60,
+  daily: 60 * 24,
+  weekly: 60 * 24 * 7,
+  monthly: 60 * 24 * 30,
+  yearly: 60 * 24 * 365,
+};
+
+/**
+ * How often the feed itself says it should be polled
+ */
+export interface PollingHints {
+  ttlMinutes: number | null; // RSS <ttl>
+  updatePeriod: string | null; // sy:updatePeriod, e.g. "hourly"
+  updateFrequency: number | null; // sy:updateFrequency, updates per period
+  updateBase: string | null; // sy:updateBase
+  suggestedIntervalMinutes: number | null;
+}
+
+/**
+ * The conditional re-request made with the validators from the first response
+ */
+export interface ConditionalCheck {
+  ifNoneMatch: string | null;
+  ifModifiedSince: string | null;
+  status: number | null;
+  notModified: boolean;
+  byteLength: number | null; // Body size of the re-request
+  error: string | null;
+}
+
+export interface CachingAudit {
+  etag: string | null;
+  lastModified: string | null;
+  cacheControl: string | null;
+  expires: string | null;
+  maxAgeSeconds: number | null;
+  hints: PollingHints;
+  conditional: ConditionalCheck | null; // Null when the feed sent no validators to re-request with
+  requiresFullDownload: boolean; // Every poll transfers the whole feed
+  warnings: string[];
+}
+
+/**
+ * Reports the cache headers and polling hints of a fetched feed, then re-requests it
+ * with If-None-Match / If-Modified-Since to see whether the server answers 304.
+ */
+export async function auditHttpCaching(fetched: FetchedFeed, hints: PollingHints): Promise<CachingAudit> {
+  const etag = fetched.headers['etag'] || null;
+  const lastModified = fetched.headers['last-modified'] || null;
+  const cacheControl = fetched.headers['cache-control'] || null;
+  const expires = fetched.headers['expires'] || null;
+  const maxAgeSeconds = getMaxAge(cacheControl);
+  const warnings: string[] = [];
+
+  if (lastModified && isNaN(Date.parse(lastModified))) {
+    warnings.push(`Last-Modified is not a valid HTTP date: "${lastModified}"`);
+  }
+  if (cacheControl && /\bno-store\b/i.test(cacheControl)) {
+    warnings.push('Cache-Control: no-store tells clients not to keep a copy, so they cannot revalidate');
+  }
+  if (hints.updatePeriod && !(hints.updatePeriod in UPDATE_PERIOD_MINUTES)) {
+    warnings.push(`sy:updatePeriod "${hints.updatePeriod}" is not one of hourly, daily, weekly, monthly or yearly`);
+  }
+
+  if (!etag && !lastModified) {
+    warnings.push('No ETag or Last-Modified header, so every poll downloads the full feed');
+    return { etag, lastModified, cacheControl, expires, maxAgeSeconds, hints, conditional: null, requiresFullDownload: true, warnings };
+  }
+
+  const conditional: ConditionalCheck = {
+    ifNoneMatch: etag,
+    ifModifiedSince: lastModified,
+    status: null,
+    notModified: false,
+    byteLength: null,
+    error: null,
+  };
+  const headers: Record<string, string> = {};
+  if (etag) headers['If-None-Match'] = etag;
+  if (lastModified) headers['If-Modified-Since'] = lastModified;
+
+  try {
+    const revalidated = await fetchFeed(fetched.finalUrl, {
+      headers,
+      timeoutMs: CONDITIONAL_TIMEOUT_MS,
+      allowNotModified: true,
+    });
+    conditional.status = revalidated.status;
+    conditional.notModified = revalidated.status === 304;
+    conditional.byteLength = revalidated.body.length;
+
+    if (!conditional.notModified) {
+      if (revalidated.body.equals(fetched.body)) {
+        warnings.push(`The server ignored the conditional request and sent the unchanged feed again (HTTP ${revalidated.status})`);
+      } else {
+        warnings.push('The conditional request returned a different body; the feed may have changed, or it varies on every request');
+      }
+      const nextEtag = revalidated.headers['etag'];
+      if (etag && nextEtag && nextEtag !== etag) {
+        warnings.push('The ETag changed between two requests made seconds apart, so it never matches');
+      }
+    }
+  } catch (error: any) {
+    conditional.error = error.message || 'Conditional request failed';
+  }
+
+  return {
+    etag,
+    lastModified,
+    cacheControl,
+    expires,
+    maxAgeSeconds,
+    hints,
+    conditional,
+    requiresFullDownload: !conditional.notModified,
+    warnings,
+  };
+}
+
+function getMaxAge(cacheControl: string | null): number | null {
+  const match = cacheControl?.match(/\bmax-age\s*=\s*"?(\d+)/i);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Reads <ttl> and the RSS 1.0 syndication module from the channel (or the Atom feed element)
+ */
+export function getPollingHints(root: XmlElement | null, format: FeedFormat): PollingHints {
+  const hints: PollingHints = {
+    ttlMinutes: null,
+    updatePeriod: null,
+    updateFrequency: null,
+    updateBase: null,
+    suggestedIntervalMinutes: null,
+  };
+  if (format === 'json' || format === 'unknown') return hints;
+
+  const channel = root && (format === 'atom' ? root : childElement(root, 'channel'));
+  if (!channel) return hints;
+
+  const ttl = Number(childElement(channel, 'ttl')?.text.trim());
+  if (ttl > 0) hints.ttlMinutes = ttl;
+
+  hints.updatePeriod = getSyndicationValue(channel, 'updatePeriod');
+  const frequency = Number(getSyndicationValue(channel, 'updateFrequency'));
+  if (frequency > 0) hints.updateFrequency = frequency;
+  hints.updateBase = getSyndicationValue(channel, 'updateBase');
+
+  const periodMinutes = hints.updatePeriod ? UPDATE_PERIOD_MINUTES[hints.updatePeriod] : undefined;
+  if (hints.ttlMinutes !== null) {
+    hints.suggestedIntervalMinutes = hints.ttlMinutes;
+  } else if (periodMinutes) {
+    // updateFrequency defaults to 1 when only the period is given
+    hints.suggestedIntervalMinutes = Math.round(periodMinutes / (hints.updateFrequency ?? 1));
+  }
+  return hints;
+}
+
+function getSyndicationValue(channel: XmlElement, local: string): string | null {
+  const element = channel.children.find((child) => child.uri === SYNDICATION_NAMESPACE && child.local === local);
+  const value = element?.text.trim();
+  return value || null;
+}
@@ -0,0 +1,321 @@
+import { mapUntilDeadline } from './concurrency';
+import { toAnalysisError } from './errors';
+import { fetchFeed, getContentLength } from './fetch-feed';
+
+export const IMAGE_PROBE_CONCURRENCY = 6;
+// Keeps probing a long feed inside the route's time limit
+export const MAX_PROBED_IMAGES = 50;
+const IMAGE_TIMEOUT_MS = 8000;
+// The whole probe stops after this, or at the caller's deadline if that comes first
+const IMAGE_PROBE_BUDGET_MS = 20000;
+// JPEG dimensions come after any EXIF block, which can be tens of kilobytes
+const HEADER_BYTES = 128 * 1024;
+
+const DEFAULT_MIN_WIDTH = 600;
+const DEFAULT_MIN_HEIGHT = 315;
+const DEFAULT_MIN_ASPECT_RATIO = 1; // Portrait images crop badly in landscape cards
+const DEFAULT_MAX_ASPECT_RATIO = 2;
+
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'avif';
+
+export interface ImageDimensions {
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+/**
+ * The smallest images the card layouts can use; aspect ratios are width / height
+ */
+export interface ImageRequirements {
+  minWidth: number;
+  minHeight: number;
+  minAspectRatio: number | null;
+  maxAspectRatio: number | null;
+}
+
+export interface ImageProbe {
+  url: string;
+  format: ImageFormat | null; // Null when the header was not a supported format
+  width: number | null;
+  height: number | null;
+  byteSize: number | null; // Full size of the image, from Content-Range or Content-Length
+  contentType: string | null;
+  error: string | null;
+  issues: string[]; // Requirements the image does not meet
+}
+
+export interface ImageReport {
+  requirements: ImageRequirements;
+  probed: number;
+  skipped: number; // Distinct URLs over MAX_PROBED_IMAGES or not reached in time
+  timedOut: boolean; // The time budget ran out before every image was probed
+  flagged: number; // Probed images that failed or do not meet the requirements
+  images: ImageProbe[];
+}
+
+function readNumber(name: string): number | null {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && value > 0 ? value : null;
+}
+
+/**
+ * Reads "16:9" as well as "1.78"
+ */
+function readAspectRatio(name: string): number | null | undefined {
+  const value = process.env[name];
+  if (value === undefined) return undefined;
+  if (value.trim() === '') return null; // Set but empty turns the check off
+  const [width, height] = value.split(':').map(Number);
+  const ratio = height !== undefined ? width / height : width;
+  return ratio > 0 && isFinite(ratio) ? ratio : undefined;
+}
+
+/**
+ * The requirements for this deployment. Every setting can be overridden with an environment variable:
+ * FEED_ANALYZER_MIN_IMAGE_WIDTH, FEED_ANALYZER_MIN_IMAGE_HEIGHT, FEED_ANALYZER_MIN_IMAGE_ASPECT_RATIO
+ * and FEED_ANALYZER_MAX_IMAGE_ASPECT_RATIO (e.g. "16:9"; empty disables the check).
+ */
+export function getImageRequirements(): ImageRequirements {
+  const minAspectRatio = readAspectRatio('FEED_ANALYZER_MIN_IMAGE_ASPECT_RATIO');
+  const maxAspectRatio = readAspectRatio('FEED_ANALYZER_MAX_IMAGE_ASPECT_RATIO');
+  return {
+    minWidth: readNumber('FEED_ANALYZER_MIN_IMAGE_WIDTH') ?? DEFAULT_MIN_WIDTH,
+    minHeight: readNumber('FEED_ANALYZER_MIN_IMAGE_HEIGHT') ?? DEFAULT_MIN_HEIGHT,
+    minAspectRatio: minAspectRatio === undefined ? DEFAULT_MIN_ASPECT_RATIO : minAspectRatio,
+    maxAspectRatio: maxAspectRatio === undefined ? DEFAULT_MAX_ASPECT_RATIO : maxAspectRatio,
+  };
+}
+
+/**
+ * Downloads only the first bytes of every image and reads its format and dimensions from the header.
+ * Works for images that browsers cannot load from another origin (CORS or hotlink protection).
+ * Images not started before the deadline (epoch ms) are skipped, so a slow host yields a partial report.
+ */
+export async function probeFeedImages(
+  urls: string[],
+  deadline: number = Infinity,
+  requirements: ImageRequirements = getImageRequirements()
+): Promise<ImageReport> {
+  const stopAt = Math.min(deadline, Date.now() + IMAGE_PROBE_BUDGET_MS);
+  const distinct = Array.from(new Set(urls));
+  const toProbe = distinct.slice(0, MAX_PROBED_IMAGES);
+  const results = await mapUntilDeadline(
+    toProbe,
+    IMAGE_PROBE_CONCURRENCY,
+    stopAt,
+    (url) => probeImage(url, stopAt),
+    (image) => image.error !== null
+  );
+  const images = results.filter((image): image is ImageProbe => image !== null);
+  for (const image of images) {
+    image.issues = checkRequirements(image, requirements);
+  }
+
+  return {
+    requirements,
+    probed: images.length,
+    skipped: distinct.length - images.length,
+    timedOut: images.length < toProbe.length,
+    flagged: images.filter((image) => image.error || image.issues.length > 0).length,
+    images,
+  };
+}
+
+async function probeImage(url: string, stopAt: number): Promise<ImageProbe> {
+  const image: ImageProbe = {
+    url,
+    format: null,
+    width: null,
+    height: null,
+    byteSize: null,
+    contentType: null,
+    error: null,
+    issues: [],
+  };
+
+  try {
+    const response = await fetchFeed(url, {
+      timeoutMs: Math.min(IMAGE_TIMEOUT_MS, stopAt - Date.now()),
+      maxBodyBytes: HEADER_BYTES,
+      headers: {
+        'Accept': 'image/avif, image/webp, image/*;q=0.8',
+        // A truncated compressed body could not be decoded
+        'Accept-Encoding': 'identity',
+        'Range': `bytes=0-${HEADER_BYTES - 1}`,
+      },
+    });
+    image.contentType = response.headers['content-type'] || null;
+    // A server that ignored the range and had no Content-Length was cut off, so the size is unknown
+    image.byteSize = getContentLength(response.headers) ??
+      (response.status === 200 && response.body.length < HEADER_BYTES ? response.body.length : null);
+
+    const dimensions = readImageDimensions(response.body);
+    if (dimensions) {
+      image.format = dimensions.format;
+      image.width = dimensions.width;
+      image.height = dimensions.height;
+    } else {
+      image.error = image.contentType?.startsWith('image/')
+        ? `Could not read the dimensions of this ${image.contentType} image`
+        : `Not a supported image (${image.contentType || 'no Content-Type'})`;
+    }
+  } catch (error: any) {
+    image.error = toAnalysisError(error, url).message;
+  }
+  return image;
+}
+
+function checkRequirements(image: ImageProbe, requirements: ImageRequirements): string[] {
+  const issues: string[] = [];
+  if (image.width === null || image.height === null) return issues;
+
+  if (image.width < requirements.minWidth || image.height < requirements.minHeight) {
+    issues.push(`Smaller than the ${requirements.minWidth} × ${requirements.minHeight}px minimum`);
+  }
+  const ratio = image.width / image.height;
+  if (requirements.minAspectRatio !== null && ratio < requirements.minAspectRatio) {
+    issues.push(`Aspect ratio ${formatRatio(ratio)} is narrower than ${formatRatio(requirements.minAspectRatio)}`);
+  }
+  if (requirements.maxAspectRatio !== null && ratio > requirements.maxAspectRatio) {
+    issues.push(`Aspect ratio ${formatRatio(ratio)} is wider than ${formatRatio(requirements.maxAspectRatio)}`);
+  }
+  return issues;
+}
+
+function formatRatio(ratio: number): string {
+  return `${Number(ratio.toFixed(2))}:1`;
+}
+
+/**
+ * Reads the format and pixel size from the start of a PNG, JPEG, GIF, WebP or AVIF file
+ */
+export function readImageDimensions(bytes: Buffer): ImageDimensions | null {
+  if (bytes.length < 12) return null;
+
+  if (bytes.readUInt32BE(0) === 0x89504e47 && bytes.toString('latin1', 12, 16) === 'IHDR' && bytes.length >= 24) {
+    return { format: 'png', width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+  }
+  if (bytes.toString('latin1', 0, 6) === 'GIF87a' || bytes.toString('latin1', 0, 6) === 'GIF89a') {
+    return { format: 'gif', width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return readJpegDimensions(bytes);
+  }
+  if (bytes.toString('latin1', 0, 4) === 'RIFF' && bytes.toString('latin1', 8, 12) === 'WEBP') {
+    return readWebpDimensions(bytes);
+  }
+  if (bytes.toString('latin1', 4, 8) === 'ftyp') {
+    return readAvifDimensions(bytes);
+  }
+  return null;
+}
+
+/**
+ * Walks the marker segments up to the first start-of-frame, which holds the size
+ */
+function readJpegDimensions(bytes: Buffer): ImageDimensions | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    // Standalone markers have no length
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC), which share the range
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { format: 'jpeg', width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function readWebpDimensions(bytes: Buffer): ImageDimensions | null {
+  if (bytes.length < 30) return null;
+  const chunk = bytes.toString('latin1', 12, 16);
+
+  if (chunk === 'VP8 ' && bytes[23] === 0x9d && bytes[24] === 0x01 && bytes[25] === 0x2a) {
+    // Lossy: 14-bit sizes after the key frame start code
+    return { format: 'webp', width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && bytes[20] === 0x2f) {
+    // Lossless: two 14-bit sizes minus one, packed little-endian
+    const bits = bytes.readUInt32LE(21);
+    return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X') {
+    // Extended: 24-bit canvas sizes minus one
+    return { format: 'webp', width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+  }
+  return null;
+}
+
+/**
+ * AVIF is an ISO BMFF file; the size is in an `ispe` property under meta/iprp/ipco
+ */
+function readAvifDimensions(bytes: Buffer): ImageDimensions | null {
+  const ftyp = findBox(bytes, 0, bytes.length, 'ftyp');
+  if (!ftyp) return null;
+  const brands: string[] = [];
+  for (let offset = ftyp.start; offset + 4 <= ftyp.end; offset += 4) {
+    brands.push(bytes.toString('latin1', offset, offset + 4));
+  }
+  if (!brands.includes('avif') && !brands.includes('avis')) return null;
+
+  const meta = findBox(bytes, 0, bytes.length, 'meta');
+  // meta is a full box: version and flags come before its children
+  const iprp = meta && findBox(bytes, meta.start + 4, meta.end, 'iprp');
+  const ipco = iprp && findBox(bytes, iprp.start, iprp.end, 'ipco');
+  if (!ipco) return null;
+
+  // Thumbnails and alpha planes have their own ispe; the largest is the image itself
+  let best: ImageDimensions | null = null;
+  let offset = ipco.start;
+  let ispe: BoxRange | null;
+  while ((ispe = findBox(bytes, offset, ipco.end, 'ispe'))) {
+    if (ispe.start + 12 <= ispe.end) {
+      const width = bytes.readUInt32BE(ispe.start + 4);
+      const height = bytes.readUInt32BE(ispe.start + 8);
+      if (!best || width * height > best.width * best.height) {
+        best = { format: 'avif', width, height };
+      }
+    }
+    offset = ispe.end;
+  }
+  return best;
+}
+
+interface BoxRange {
+  start: number; // First byte after the box header
+  end: number;
+}
+
+function findBox(bytes: Buffer, start: number, end: number, type: string): BoxRange | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = bytes.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1 && offset + 16 <= end) {
+      // 64-bit size
+      size = bytes.readUInt32BE(offset + 8) * 0x100000000 + bytes.readUInt32BE(offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // Extends to the end of the enclosing box
+    }
+    if (size < headerSize) return null;
+
+    const boxEnd = Math.min(offset + size, end);
+    if (bytes.toString('latin1', offset + 4, offset + 8) === type) {
+      return { start: offset + headerSize, end: boxEnd };
+    }
+    offset += size;
+  }
+  return null;
+}
@@ -0,0 +1,190 @@
+import { createHash } from 'node:crypto';
+import type Parser from 'rss-parser';
+
+export type FeedItem = Parser.Item & { [key: string]: any };
+
+export type ImageSource = 'media:content' | 'media:thumbnail' | 'enclosure' | 'image' | 'img';
+
+export interface ItemAnalysis {
+  index: number; // 0-based position in the feed
+  title: string | null;
+  link: string | null;
+  guid: string | null;
+  fields: string[];
+  missingFields: string[];
+  contentLength: number; // Characters of text after stripping tags
+  contentHash: string; // Fingerprint of the full body, to spot edits between snapshots
+  imageSource: ImageSource | null;
+  pubDate: string | null;
+  hasValidDate: boolean;
+}
+
+export type SourceValue = string | string[];
+
+export interface FieldCoverage {
+  field: string;
+  present: number;
+  total: number;
+}
+
+/**
+ * Lists the fields an item provides, using the same names as `availableFields`
+ */
+export function getItemFields(item: FeedItem): string[] {
+  const fields: string[] = [];
+
+  if (item.title) fields.push('title');
+  if (item.link) fields.push('link');
+  if (item.content) fields.push('content');
+  if (item.contentSnippet) fields.push('contentSnippet');
+  if (item.description) fields.push('description');
+  if (item.categories && item.categories.length > 0) fields.push('categories');
+  if (item.pubDate) fields.push('pubDate');
+  if (item.creator) fields.push('creator');
+  if (item.author) fields.push('author');
+  if (item.guid) fields.push('guid');
+
+  // Check for custom fields
+  if (item.contentEncoded) fields.push('content:encoded');
+  if (item.content_html) fields.push('content_html');
+  if (item.content_text) fields.push('content_text');
+  if (item.mediaContent) fields.push('media:content');
+  if (item.mediaThumbnail) fields.push('media:thumbnail');
+  if (item.enclosure) fields.push('enclosure');
+
+  // Check for image tags
+  if (item.image) fields.push('image');
+
+  return fields;
+}
+
+/**
+ * Essential fields an importer needs on every item
+ */
+export function getMissingItemFields(item: FeedItem): string[] {
+  const missing: string[] = [];
+  if (!item.title) missing.push('title');
+  if (!item.link) missing.push('link');
+  if (!item.description && !item.content) missing.push('description');
+  return missing;
+}
+
+/**
+ * The full body of an item, preferring content:encoded over the summary fields
+ */
+export function getItemContent(item: FeedItem): string {
+  return item.contentEncoded || item.content || item.description || '';
+}
+
+/**
+ * Where the item's featured image would come from, in the order an importer checks them
+ */
+export function getItemImageSource(item: FeedItem): ImageSource | null {
+  if (item.mediaContent) return 'media:content';
+  if (item.mediaThumbnail) return 'media:thumbnail';
+  if (item.enclosure && item.enclosure.type?.startsWith('image/')) return 'enclosure';
+  if (item.image) return 'image';
+  if (item.description && item.description.includes('<img')) return 'img';
+  if (item.contentEncoded && item.contentEncoded.includes('<img')) return 'img';
+  if (item.content_html && item.content_html.includes('<img')) return 'img';
+  return null;
+}
+
+/**
+ * The url attribute of an element; rss-parser puts attributes under `$` for custom fields
+ */
+function attributeUrl(value: any): string | undefined {
+  return typeof value === 'object' && value ? value.$?.url || value.url : undefined;
+}
+
+/**
+ * Every image URL an item offers, in the same order as getItemImageSource
+ */
+export function getItemImageUrls(item: FeedItem): string[] {
+  const imgMatch = getItemContent(item).match(/<img[^>]+src=["']([^"']+)["']/i);
+
+  const urls = [
+    attributeUrl(item.mediaContent),
+    attributeUrl(item.mediaThumbnail),
+    item.enclosure?.type?.startsWith('image/') ? item.enclosure.url : undefined,
+    typeof item.image === 'string' ? item.image : attributeUrl(item.image),
+    item.itunes?.image,
+    imgMatch?.[1],
+  ];
+  return Array.from(new Set(urls.filter((url): url is string => typeof url === 'string' && url.trim() !== '')));
+}
+
+/**
+ * The value of every field an item provides, keyed like getItemFields.
+ * Media elements are reduced to their URL and categories to their names.
+ */
+export function getItemSourceValues(item: FeedItem): Record<string, SourceValue> {
+  const values: Record<string, SourceValue> = {};
+  for (const field of getItemFields(item)) {
+    const value = readSourceField(item, field);
+    if (value !== undefined && value.length > 0) {
+      values[field] = value;
+    }
+  }
+  return values;
+}
+
+function readSourceField(item: FeedItem, field: string): SourceValue | undefined {
+  switch (field) {
+    case 'categories':
+      return (item.categories as any[])
+        .map((category) => (typeof category === 'string' ? category : category?._ || category?.$?.term || ''))
+        .filter(Boolean);
+    case 'content:encoded':
+      return item.contentEncoded;
+    case 'media:content':
+      return attributeUrl(item.mediaContent);
+    case 'media:thumbnail':
+      return attributeUrl(item.mediaThumbnail);
+    case 'enclosure':
+      return item.enclosure?.url;
+    case 'image':
+      return typeof item.image === 'string' ? item.image : attributeUrl(item.image);
+    default: {
+      const value = item[field];
+      return typeof value === 'string' ? value : undefined;
+    }
+  }
+}
+
+export function analyzeItem(item: FeedItem, index: number): ItemAnalysis {
+  const pubDate = item.pubDate || null;
+  const date = pubDate ? new Date(pubDate) : null;
+  const content = getItemContent(item);
+
+  return {
+    index,
+    title: item.title || null,
+    link: item.link || null,
+    guid: item.guid || null,
+    fields: getItemFields(item),
+    missingFields: getMissingItemFields(item),
+    contentLength: content.replace(/<[^>]*>/g, '').length,
+    // Atom entries with only a <summary> have no content fields
+    contentHash: createHash('sha1').update(content || item.summary || '').digest('hex').slice(0, 16),
+    imageSource: getItemImageSource(item),
+    pubDate,
+    hasValidDate: date !== null && !isNaN(date.getTime()),
+  };
+}
+
+/**
+ * Counts how many items provide each field, e.g. "pubDate present in 48/50 items"
+ */
+export function computeFieldCoverage(items: ItemAnalysis[]): FieldCoverage[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const field of item.fields) {
+      counts.set(field, (counts.get(field) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .map(([field, present]) => ({ field, present, total: items.length }))
+    .sort((a, b) => b.present - a.present || a.field.localeCompare(b.field));
+}
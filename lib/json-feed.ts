@@ -0,0 +1,217 @@
+import type Parser from 'rss-parser';
+import { createDiagnosticCollector, ValidationResult } from './validation';
+
+export const JSON_FEED_VERSIONS: Record<string, string> = {
+  'https://jsonfeed.org/version/1': '1.0',
+  'https://jsonfeed.org/version/1.1': '1.1',
+};
+
+export interface Position {
+  line: number;
+  column: number;
+}
+
+/**
+ * Converts a string offset into a 1-based line and column
+ */
+function positionAt(text: string, offset: number): Position {
+  const before = text.slice(0, offset);
+  const lines = before.split(/\r\n|\r|\n/);
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Records where each value starts in an already-valid JSON document, keyed by
+ * dotted path ("items.3.id"), so diagnostics can point at the offending value.
+ */
+function locateJsonPaths(text: string): Map<string, number> {
+  const positions = new Map<string, number>();
+  let index = 0;
+
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) index++;
+  };
+
+  const readString = (): string => {
+    const start = index;
+    index++; // opening quote
+    while (index < text.length && text[index] !== '"') {
+      index += text[index] === '\\' ? 2 : 1;
+    }
+    index++; // closing quote
+    return JSON.parse(text.slice(start, index));
+  };
+
+  const readValue = (path: string) => {
+    skipWhitespace();
+    positions.set(path, index);
+    const char = text[index];
+
+    if (char === '{') {
+      index++;
+      skipWhitespace();
+      while (text[index] !== '}' && index < text.length) {
+        skipWhitespace();
+        const key = readString();
+        skipWhitespace();
+        index++; // colon
+        readValue(path ? `${path}.${key}` : key);
+        skipWhitespace();
+        if (text[index] === ',') index++;
+        skipWhitespace();
+      }
+      index++;
+    } else if (char === '[') {
+      index++;
+      let position = 0;
+      skipWhitespace();
+      while (text[index] !== ']' && index < text.length) {
+        readValue(`${path}.${position++}`);
+        skipWhitespace();
+        if (text[index] === ',') index++;
+        skipWhitespace();
+      }
+      index++;
+    } else if (char === '"') {
+      readString();
+    } else {
+      while (index < text.length && !/[\s,\]}]/.test(text[index])) index++;
+    }
+  };
+
+  readValue('');
+  return positions;
+}
+
+/**
+ * Looks up the line and column of a value by dotted path in an already-valid JSON document
+ */
+export function createJsonLocator(text: string): (path: string) => Position | undefined {
+  const paths = locateJsonPaths(text);
+  return (path) => {
+    const offset = paths.get(path);
+    return offset !== undefined ? positionAt(text, offset) : undefined;
+  };
+}
+
+/**
+ * Validates a JSON Feed 1.0/1.1 document (https://jsonfeed.org/version/1.1)
+ */
+export function validateJsonFeed(content: string): ValidationResult {
+  const { report, done } = createDiagnosticCollector(content);
+  const text = content.replace(/^\uFEFF/, '');
+
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error: any) {
+    // V8 reports either "at position N" or "(line L column C)"
+    const lineColumn = error.message.match(/line (\d+) column (\d+)/);
+    const offset = error.message.match(/position (\d+)/);
+    const at = lineColumn
+      ? { line: Number(lineColumn[1]), column: Number(lineColumn[2]) }
+      : offset
+      ? positionAt(text, Number(offset[1]))
+      : undefined;
+    report('error', 'json-syntax', `JSON is not well-formed: ${error.message}`, at);
+    return done();
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    report('error', 'json-feed-object', 'JSON Feed must be a JSON object');
+    return done();
+  }
+
+  const at = createJsonLocator(text);
+
+  const version = JSON_FEED_VERSIONS[data.version];
+  if (!data.version) {
+    report('error', 'json-feed-version', 'JSON Feed missing required "version" property');
+  } else if (!version) {
+    report('error', 'json-feed-version', `Unknown JSON Feed version "${data.version}"`, at('version'));
+  }
+
+  if (typeof data.title !== 'string' || data.title.trim() === '') {
+    report('error', 'json-feed-title', 'JSON Feed missing required "title" property', at('title'));
+  }
+
+  if (!data.home_page_url) {
+    report('warning', 'json-feed-home-page-url', 'JSON Feed should contain a "home_page_url" property');
+  }
+  if (!data.feed_url) {
+    report('warning', 'json-feed-feed-url', 'JSON Feed should contain a "feed_url" property');
+  }
+  if (version === '1.1' && data.author && !data.authors) {
+    report('warning', 'json-feed-author', '"author" is deprecated in JSON Feed 1.1, use "authors"', at('author'));
+  }
+
+  if (!Array.isArray(data.items)) {
+    report('error', 'json-feed-items', 'JSON Feed missing required "items" array', at('items'));
+    return done();
+  }
+  if (data.items.length === 0) {
+    report('error', 'json-item-count', 'JSON Feed should contain at least one item', at('items'));
+  }
+
+  data.items.forEach((item: any, index: number) => {
+    const itemPath = `items.${index}`;
+    if (!item || typeof item !== 'object') {
+      report('error', 'json-item-object', `JSON Feed item #${index + 1} must be an object`, at(itemPath));
+      return;
+    }
+    if (item.id === undefined || item.id === null || item.id === '') {
+      report('error', 'json-item-id', `JSON Feed item #${index + 1} missing required "id" property`, at(itemPath));
+    } else if (typeof item.id !== 'string') {
+      report('warning', 'json-item-id', `JSON Feed item #${index + 1} "id" should be a string`, at(`${itemPath}.id`));
+    }
+    if (typeof item.content_html !== 'string' && typeof item.content_text !== 'string') {
+      report('error', 'json-item-content', `JSON Feed item #${index + 1} missing required "content_html" or "content_text" property`, at(itemPath));
+    }
+    if (version === '1.1' && item.author && !item.authors) {
+      report('warning', 'json-feed-author', `JSON Feed item #${index + 1} uses deprecated "author", use "authors"`, at(`${itemPath}.author`));
+    }
+  });
+
+  return done();
+}
+
+/**
+ * Converts a JSON Feed into the same shape rss-parser produces,
+ * so the analysis in the route works on it unchanged
+ */
+export function parseJsonFeed(content: string): Parser.Output<any> & { [key: string]: any } {
+  const data = JSON.parse(content.replace(/^\uFEFF/, ''));
+  const authorName = (source: any): string | undefined =>
+    (Array.isArray(source.authors) && source.authors[0]?.name) || source.author?.name || undefined;
+
+  return {
+    title: data.title,
+    link: data.home_page_url,
+    feedUrl: data.feed_url,
+    description: data.description,
+    image: data.icon ? { url: data.icon } : undefined,
+    items: (data.items || []).map((item: any) => {
+      const attachment = Array.isArray(item.attachments) ? item.attachments[0] : undefined;
+      const date = item.date_published ? new Date(item.date_published) : null;
+      return {
+        guid: item.id !== undefined ? String(item.id) : undefined,
+        title: item.title,
+        link: item.url || item.external_url,
+        content: item.content_html || item.content_text,
+        // The JSON names stay on the item so availableFields lists what the feed really has
+        content_html: typeof item.content_html === 'string' ? item.content_html : undefined,
+        content_text: typeof item.content_text === 'string' ? item.content_text : undefined,
+        contentSnippet: item.content_text || (item.content_html || '').replace(/<[^>]*>/g, ''),
+        description: item.summary,
+        pubDate: item.date_published,
+        isoDate: date && !isNaN(date.getTime()) ? date.toISOString() : undefined,
+        creator: authorName(item) || authorName(data),
+        categories: Array.isArray(item.tags) ? item.tags : undefined,
+        enclosure: attachment
+          ? { url: attachment.url, type: attachment.mime_type, length: attachment.size_in_bytes }
+          : undefined,
+        image: item.image || item.banner_image,
+      };
+    }),
+  };
+}
@@ -0,0 +1,199 @@
+import { mapUntilDeadline } from './concurrency';
+import { AnalysisErrorCode, toAnalysisError } from './errors';
+import { fetchFeed, getContentLength, RedirectHop } from './fetch-feed';
+import { FeedItem, getItemImageUrls } from './item-analysis';
+
+export const LINK_CHECK_CONCURRENCY = 6;
+// Keeps a check of a long feed inside the route's time limit
+export const MAX_CHECKED_URLS = 100;
+const LINK_TIMEOUT_MS = 8000;
+// The whole check stops after this, or at the caller's deadline if that comes first
+const LINK_CHECK_BUDGET_MS = 30000;
+
+export type LinkKind = 'link' | 'enclosure' | 'image';
+
+export interface LinkCheckResult {
+  status: number | null; // Null when no response arrived
+  ok: boolean;
+  finalUrl: string;
+  redirects: RedirectHop[];
+  contentType: string | null;
+  contentLength: number | null;
+  method: 'HEAD' | 'GET';
+  errorCode: AnalysisErrorCode | null;
+  error: string | null;
+}
+
+/**
+ * One URL an item points at, with what the feed declares about it and what the server answered
+ */
+export interface CheckedLink {
+  kind: LinkKind;
+  url: string;
+  declaredType: string | null;
+  declaredLength: number | null;
+  result: LinkCheckResult | null; // Null when the URL was over the check limit or not reached in time
+  mismatches: string[]; // Declared type or length that disagrees with the response
+}
+
+export interface ItemLinks {
+  index: number; // 0-based position of the item in the feed
+  title: string | null;
+  links: CheckedLink[];
+  broken: number;
+}
+
+export interface LinkReport {
+  checked: number; // Distinct URLs requested
+  broken: number;
+  skipped: number; // Distinct URLs over MAX_CHECKED_URLS or not reached in time
+  timedOut: boolean; // The time budget ran out before every URL was checked
+  items: ItemLinks[];
+}
+
+/**
+ * HEAD-checks every item link, enclosure and image URL with bounded concurrency.
+ * URLs shared by several items are requested once. Relative URLs are resolved against `baseUrl`.
+ * URLs not checked before the deadline (epoch ms) are skipped, so slow hosts yield a partial report.
+ */
+export async function checkFeedLinks(items: FeedItem[], baseUrl: string | null, deadline: number = Infinity): Promise<LinkReport> {
+  const stopAt = Math.min(deadline, Date.now() + LINK_CHECK_BUDGET_MS);
+  const itemLinks: ItemLinks[] = items.map((item, index) => ({
+    index,
+    title: item.title || null,
+    links: collectLinks(item, baseUrl),
+    broken: 0,
+  }));
+
+  const urls = Array.from(new Set(itemLinks.flatMap((item) => item.links.map((link) => link.url))));
+  const toCheck = urls.slice(0, MAX_CHECKED_URLS);
+  // A URL whose request timed out at the deadline is counted as skipped, not as broken
+  const results = await mapUntilDeadline(toCheck, LINK_CHECK_CONCURRENCY, stopAt, (url) => checkLink(url, stopAt), (result) => !result.ok);
+  const checked = results.filter((result): result is LinkCheckResult => result !== null);
+  const resultsByUrl = new Map<string, LinkCheckResult | null>(toCheck.map((url, index) => [url, results[index]]));
+
+  for (const item of itemLinks) {
+    for (const link of item.links) {
+      link.result = resultsByUrl.get(link.url) || null;
+      if (link.result) {
+        link.mismatches = compareDeclared(link, link.result);
+      }
+    }
+    item.broken = item.links.filter((link) => link.result && !link.result.ok).length;
+  }
+
+  return {
+    checked: checked.length,
+    broken: checked.filter((result) => !result.ok).length,
+    skipped: urls.length - checked.length,
+    timedOut: checked.length < toCheck.length,
+    items: itemLinks.filter((item) => item.links.length > 0),
+  };
+}
+
+function collectLinks(item: FeedItem, baseUrl: string | null): CheckedLink[] {
+  const links: CheckedLink[] = [];
+  const add = (kind: LinkKind, url: string | undefined, declaredType?: string, declaredLength?: string | number) => {
+    const resolved = resolveUrl(url, baseUrl);
+    if (!resolved || links.some((link) => link.url === resolved)) return;
+    const length = Number(declaredLength);
+    links.push({
+      kind,
+      url: resolved,
+      declaredType: declaredType || null,
+      declaredLength: length > 0 ? length : null,
+      result: null,
+      mismatches: [],
+    });
+  };
+
+  add('link', item.link);
+  if (item.enclosure?.url) {
+    add('enclosure', item.enclosure.url, item.enclosure.type, item.enclosure.length);
+  }
+  const mediaContent = item.mediaContent?.$;
+  for (const url of getItemImageUrls(item)) {
+    // media:content carries its own type and fileSize
+    const declared = mediaContent?.url === url ? mediaContent : undefined;
+    add('image', url, declared?.type, declared?.fileSize);
+  }
+  return links;
+}
+
+/**
+ * An absolute http(s) URL, or null for anything that cannot be requested
+ */
+export function resolveUrl(url: string | undefined, baseUrl: string | null): string | null {
+  if (!url) return null;
+  try {
+    const resolved = baseUrl ? new URL(url.trim(), baseUrl) : new URL(url.trim());
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * HEAD first; servers that refuse HEAD get a GET for the first byte only
+ */
+async function checkLink(url: string, stopAt: number): Promise<LinkCheckResult> {
+  let result = await requestLink(url, 'HEAD', stopAt);
+  if ((result.status === 405 || result.status === 501) && Date.now() < stopAt) {
+    result = await requestLink(url, 'GET', stopAt);
+  }
+  return result;
+}
+
+async function requestLink(url: string, method: 'HEAD' | 'GET', stopAt: number): Promise<LinkCheckResult> {
+  try {
+    const response = await fetchFeed(url, {
+      method,
+      timeoutMs: Math.min(LINK_TIMEOUT_MS, stopAt - Date.now()),
+      headers: method === 'GET' ? { Range: 'bytes=0-0' } : {},
+      // Servers that ignore Range would otherwise send the whole file, and big enclosures would hit the size limit
+      maxBodyBytes: method === 'GET' ? 1 : undefined,
+    });
+    return {
+      status: response.status,
+      ok: true,
+      finalUrl: response.finalUrl,
+      redirects: response.redirects,
+      contentType: response.headers['content-type'] || null,
+      contentLength: getContentLength(response.headers),
+      method,
+      errorCode: null,
+      error: null,
+    };
+  } catch (error: any) {
+    const analysisError = toAnalysisError(error, url);
+    return {
+      status: analysisError.details.status ?? null,
+      // The size limit only guards downloads; the server answered, so the URL works
+      ok: analysisError.code === 'TOO_LARGE',
+      finalUrl: analysisError.details.url || url,
+      redirects: [],
+      contentType: null,
+      contentLength: null,
+      method,
+      errorCode: analysisError.code,
+      error: analysisError.message,
+    };
+  }
+}
+
+function compareDeclared(link: CheckedLink, result: LinkCheckResult): string[] {
+  const mismatches: string[] = [];
+  if (!result.ok) return mismatches;
+
+  const actualType = result.contentType?.split(';')[0].trim().toLowerCase();
+  if (link.declaredType && actualType && link.declaredType.toLowerCase() !== actualType) {
+    mismatches.push(`Declared type ${link.declaredType}, server sends ${actualType}`);
+  }
+  if (link.declaredLength !== null && result.contentLength !== null && link.declaredLength !== result.contentLength) {
+    mismatches.push(
+      `Declared length ${link.declaredLength.toLocaleString('en-US')} bytes, ` +
+      `server reports ${result.contentLength.toLocaleString('en-US')}`
+    );
+  }
+  return mismatches;
+}
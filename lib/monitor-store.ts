@@ -0,0 +1,259 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { AlertCondition } from './alert-conditions';
+import type { AnalysisErrorCode } from './errors';
+import type { ItemFingerprint } from './feed-diff';
+
+// Older snapshots beyond this are dropped so the store stays small
+const MAX_SNAPSHOTS_PER_FEED = 500;
+// Only the most recent snapshots keep item details for diffing
+const MAX_SNAPSHOTS_WITH_ITEMS = 50;
+const MAX_ALERT_DELIVERIES = 100;
+
+export interface MonitoredFeed {
+  id: string;
+  url: string;
+  intervalMinutes: number;
+  createdAt: string;
+  lastCheckedAt: string | null;
+  nextCheckAt: string; // ISO time the scheduler should re-check from
+}
+
+/**
+ * What one scheduled check recorded; enough to chart a feed's health without the full analysis
+ */
+export interface FeedSnapshot {
+  id: string;
+  feedId: string;
+  checkedAt: string;
+  isValid: boolean;
+  title: string | null;
+  feedType: string | null;
+  itemCount: number | null;
+  lastUpdate: string | null; // ISO 8601
+  latestItemAt: string | null; // ISO date of the newest item, for staleness
+  duplicateGuids: string[];
+  validationErrors: string[]; // Messages of error-severity diagnostics
+  hasFeaturedImage: boolean;
+  availableFields: string[];
+  items?: ItemFingerprint[]; // Dropped from older snapshots
+  errorCode: AnalysisErrorCode | null;
+  error: string | null;
+}
+
+/**
+ * A user-defined condition over check results and where to POST when it starts matching
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  monitorId: string | null; // Null applies the rule to every monitored feed
+  condition: AlertCondition;
+  webhookUrl: string;
+  createdAt: string;
+  matchingFeeds: string[]; // Monitor ids whose latest check matched, so each episode alerts once
+}
+
+export interface AlertDelivery {
+  id: string;
+  ruleId: string;
+  monitorId: string | null; // Null for test deliveries
+  message: string;
+  sentAt: string;
+  status: number | null; // HTTP status from the webhook, null when the request failed
+  error: string | null;
+}
+
+interface StoreData {
+  monitors: MonitoredFeed[];
+  snapshots: Record<string, FeedSnapshot[]>; // By feed id, oldest first
+  alertRules?: AlertRule[];
+  alertDeliveries?: AlertDelivery[]; // Newest first
+}
+
+export const MONITOR_STORE_UNAVAILABLE =
+  'Monitoring is not configured: set FEED_ANALYZER_DATA_DIR to a persistent, writable directory';
+
+/**
+ * The store is a JSON file, so it only works where the disk outlives a request. There is no
+ * default: on serverless hosts the working directory is read-only or wiped between invocations.
+ */
+export function isMonitorStoreConfigured(): boolean {
+  return !!process.env.FEED_ANALYZER_DATA_DIR;
+}
+
+function getStorePath(): string {
+  if (!isMonitorStoreConfigured()) {
+    throw new Error(MONITOR_STORE_UNAVAILABLE);
+  }
+  return path.join(process.env.FEED_ANALYZER_DATA_DIR as string, 'monitors.json');
+}
+
+async function readStore(): Promise<StoreData> {
+  try {
+    return JSON.parse(await fs.readFile(getStorePath(), 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return { monitors: [], snapshots: {} };
+    throw error;
+  }
+}
+
+async function writeStore(data: StoreData): Promise<void> {
+  const storePath = getStorePath();
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  // Write then rename so a crash mid-write never leaves a truncated store
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+  await fs.rename(tempPath, storePath);
+}
+
+let pending: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs read-modify-write cycles one at a time so concurrent checks do not overwrite each other
+ */
+function updateStore<T>(update: (data: StoreData) => T): Promise<T> {
+  const result = pending.then(async () => {
+    const data = await readStore();
+    const value = update(data);
+    await writeStore(data);
+    return value;
+  });
+  pending = result.catch(() => undefined);
+  return result;
+}
+
+export async function listMonitors(): Promise<MonitoredFeed[]> {
+  await pending;
+  return (await readStore()).monitors;
+}
+
+export async function getMonitor(id: string): Promise<MonitoredFeed | null> {
+  const monitors = await listMonitors();
+  return monitors.find((monitor) => monitor.id === id) || null;
+}
+
+/**
+ * Registers a feed; the first check is due immediately. Returns null if the URL is already monitored.
+ */
+export function addMonitor(url: string, intervalMinutes: number): Promise<MonitoredFeed | null> {
+  return updateStore((data) => {
+    if (data.monitors.some((monitor) => monitor.url === url)) return null;
+
+    const now = new Date().toISOString();
+    const monitor: MonitoredFeed = {
+      id: randomUUID(),
+      url,
+      intervalMinutes,
+      createdAt: now,
+      lastCheckedAt: null,
+      nextCheckAt: now,
+    };
+    data.monitors.push(monitor);
+    data.snapshots[monitor.id] = [];
+    return monitor;
+  });
+}
+
+export function removeMonitor(id: string): Promise<boolean> {
+  return updateStore((data) => {
+    const before = data.monitors.length;
+    data.monitors = data.monitors.filter((monitor) => monitor.id !== id);
+    delete data.snapshots[id];
+    data.alertRules = (data.alertRules || [])
+      .filter((rule) => rule.monitorId !== id)
+      .map((rule) => ({ ...rule, matchingFeeds: rule.matchingFeeds.filter((feedId) => feedId !== id) }));
+    return data.monitors.length < before;
+  });
+}
+
+/**
+ * A feed's snapshots, oldest first
+ */
+export async function getHistory(id: string): Promise<FeedSnapshot[]> {
+  await pending;
+  return (await readStore()).snapshots[id] || [];
+}
+
+export async function getSnapshot(feedId: string, snapshotId: string): Promise<FeedSnapshot | null> {
+  const history = await getHistory(feedId);
+  return history.find((snapshot) => snapshot.id === snapshotId) || null;
+}
+
+/**
+ * Appends a check result and schedules the feed's next check
+ */
+export function recordSnapshot(snapshot: Omit<FeedSnapshot, 'id'>): Promise<FeedSnapshot | null> {
+  return updateStore((data) => {
+    const monitor = data.monitors.find((candidate) => candidate.id === snapshot.feedId);
+    // The feed may have been removed while its check was running
+    if (!monitor) return null;
+
+    const stored: FeedSnapshot = { id: randomUUID(), ...snapshot };
+    const history = [...(data.snapshots[monitor.id] || []), stored].slice(-MAX_SNAPSHOTS_PER_FEED);
+    for (const older of history.slice(0, -MAX_SNAPSHOTS_WITH_ITEMS)) {
+      delete older.items;
+    }
+    data.snapshots[monitor.id] = history;
+
+    monitor.lastCheckedAt = snapshot.checkedAt;
+    monitor.nextCheckAt = new Date(Date.parse(snapshot.checkedAt) + monitor.intervalMinutes * 60 * 1000).toISOString();
+    return stored;
+  });
+}
+
+export async function listAlertRules(): Promise<AlertRule[]> {
+  await pending;
+  return (await readStore()).alertRules || [];
+}
+
+export async function getAlertRule(id: string): Promise<AlertRule | null> {
+  const rules = await listAlertRules();
+  return rules.find((rule) => rule.id === id) || null;
+}
+
+export function addAlertRule(rule: Omit<AlertRule, 'id' | 'createdAt' | 'matchingFeeds'>): Promise<AlertRule> {
+  return updateStore((data) => {
+    const stored: AlertRule = { id: randomUUID(), ...rule, createdAt: new Date().toISOString(), matchingFeeds: [] };
+    data.alertRules = [...(data.alertRules || []), stored];
+    return stored;
+  });
+}
+
+export function removeAlertRule(id: string): Promise<boolean> {
+  return updateStore((data) => {
+    const rules = data.alertRules || [];
+    data.alertRules = rules.filter((rule) => rule.id !== id);
+    return data.alertRules.length < rules.length;
+  });
+}
+
+/**
+ * Records whether a rule currently matches a feed; returns true when it just started matching
+ */
+export function setAlertRuleMatch(ruleId: string, monitorId: string, matches: boolean): Promise<boolean> {
+  return updateStore((data) => {
+    const rule = (data.alertRules || []).find((candidate) => candidate.id === ruleId);
+    if (!rule) return false;
+
+    const wasMatching = rule.matchingFeeds.includes(monitorId);
+    rule.matchingFeeds = matches
+      ? Array.from(new Set([...rule.matchingFeeds, monitorId]))
+      : rule.matchingFeeds.filter((id) => id !== monitorId);
+    return matches && !wasMatching;
+  });
+}
+
+export async function listAlertDeliveries(): Promise<AlertDelivery[]> {
+  await pending;
+  return (await readStore()).alertDeliveries || [];
+}
+
+export function recordAlertDelivery(delivery: Omit<AlertDelivery, 'id'>): Promise<AlertDelivery> {
+  return updateStore((data) => {
+    const stored: AlertDelivery = { id: randomUUID(), ...delivery };
+    data.alertDeliveries = [stored, ...(data.alertDeliveries || [])].slice(0, MAX_ALERT_DELIVERIES);
+    return stored;
+  });
+}
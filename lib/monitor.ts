@@ -0,0 +1,170 @@
+import { processAlerts } from './alerts';
+import { analyzeFeedUrl, FeedAnalysis } from './analyze';
+import { mapWithConcurrency } from './concurrency';
+import { fingerprintItems } from './feed-diff';
+import { FeedSnapshot, getHistory, listMonitors, MonitoredFeed, recordSnapshot } from './monitor-store';
+
+export const MIN_INTERVAL_MINUTES = 15;
+export const DEFAULT_INTERVAL_MINUTES = 60;
+export const MONITOR_CONCURRENCY = 4;
+export const STALE_AFTER_DAYS = 7;
+// How long a scheduled run keeps starting checks; one check can take about 30 s, and the route allows 60 s
+export const CHECK_RUN_BUDGET_MS = 25 * 1000;
+
+/**
+ * Health summary shown next to a monitored feed
+ */
+export interface MonitorStatus {
+  checks: number;
+  uptime: number | null; // Share of checks where the feed was valid, 0-1
+  isValid: boolean | null; // Result of the latest check
+  latestItemAt: string | null;
+  daysSinceLatestItem: number | null;
+  isStale: boolean;
+}
+
+/**
+ * A row of the monitors list
+ */
+export interface MonitorSummary {
+  monitor: MonitoredFeed;
+  status: MonitorStatus;
+  latest: SnapshotSummary | null;
+}
+
+/**
+ * A snapshot as listed in the UI; item details stay on the server until a diff asks for them
+ */
+export type SnapshotSummary = Omit<FeedSnapshot, 'items'> & { hasItems: boolean };
+
+/**
+ * One snapshot in the history with what changed since the check before it
+ */
+export interface HistoryEntry {
+  snapshot: SnapshotSummary;
+  changes: string[];
+}
+
+/**
+ * Reduces an analysis to what the history keeps
+ */
+export function createSnapshot(feedId: string, analysis: FeedAnalysis, checkedAt: Date = new Date()): Omit<FeedSnapshot, 'id'> {
+  const itemDates = (analysis.items || [])
+    .filter((item) => item.hasValidDate && item.pubDate)
+    .map((item) => new Date(item.pubDate as string).getTime());
+
+  return {
+    feedId,
+    checkedAt: checkedAt.toISOString(),
+    isValid: analysis.isValid,
+    title: analysis.title || null,
+    feedType: analysis.feedType || null,
+    itemCount: analysis.itemCount ?? null,
+    lastUpdate: analysis.lastUpdate || null,
+    latestItemAt: itemDates.length > 0 ? new Date(Math.max(...itemDates)).toISOString() : null,
+    duplicateGuids: analysis.duplicateGuids || [],
+    validationErrors: (analysis.validationErrors || [])
+      .filter((diagnostic) => diagnostic.severity === 'error')
+      .map((diagnostic) => diagnostic.message),
+    hasFeaturedImage: analysis.hasFeaturedImage,
+    availableFields: analysis.availableFields,
+    items: fingerprintItems(analysis.items || []),
+    errorCode: analysis.errorCode || null,
+    error: analysis.error || null,
+  };
+}
+
+/**
+ * Analyzes a monitored feed now, stores the result and fires any alert rules it triggers
+ */
+export async function checkMonitor(monitor: MonitoredFeed): Promise<FeedSnapshot | null> {
+  const analysis = await analyzeFeedUrl(monitor.url);
+  const snapshot = await recordSnapshot(createSnapshot(monitor.id, analysis));
+  if (snapshot) {
+    await processAlerts(monitor, await getHistory(monitor.id));
+  }
+  return snapshot;
+}
+
+/**
+ * Checks every feed whose next check is due; called by the scheduler. Feeds not started within
+ * the budget stay due and are picked up by the next run.
+ */
+export async function runDueChecks(now: Date = new Date(), budgetMs: number = CHECK_RUN_BUDGET_MS): Promise<FeedSnapshot[]> {
+  const deadline = Date.now() + budgetMs;
+  const due = (await listMonitors()).filter((monitor) => Date.parse(monitor.nextCheckAt) <= now.getTime());
+  const snapshots = await mapWithConcurrency(due, MONITOR_CONCURRENCY, async (monitor) =>
+    Date.now() < deadline ? checkMonitor(monitor) : null
+  );
+  return snapshots.filter((snapshot): snapshot is FeedSnapshot => snapshot !== null);
+}
+
+export function computeMonitorStatus(history: FeedSnapshot[], now: Date = new Date()): MonitorStatus {
+  const latest = history.length > 0 ? history[history.length - 1] : null;
+
+  // The newest item ever seen, so a failed check does not hide how old the content is
+  let latestItemAt: string | null = null;
+  for (const snapshot of history) {
+    if (snapshot.latestItemAt && (!latestItemAt || snapshot.latestItemAt > latestItemAt)) {
+      latestItemAt = snapshot.latestItemAt;
+    }
+  }
+  const daysSinceLatestItem = latestItemAt
+    ? Math.max(0, (now.getTime() - Date.parse(latestItemAt)) / (1000 * 60 * 60 * 24))
+    : null;
+
+  return {
+    checks: history.length,
+    uptime: history.length > 0 ? history.filter((snapshot) => snapshot.isValid).length / history.length : null,
+    isValid: latest ? latest.isValid : null,
+    latestItemAt,
+    daysSinceLatestItem,
+    isStale: daysSinceLatestItem !== null && daysSinceLatestItem > STALE_AFTER_DAYS,
+  };
+}
+
+export function summarizeSnapshot(snapshot: FeedSnapshot): SnapshotSummary {
+  const { items, ...summary } = snapshot;
+  return { ...summary, hasItems: items !== undefined };
+}
+
+function countChange(label: string, before: number, after: number): string | null {
+  return before === after ? null : `${label}: ${before} → ${after}`;
+}
+
+/**
+ * Human-readable differences between two consecutive checks
+ */
+export function describeSnapshotChanges(previous: FeedSnapshot, current: FeedSnapshot): string[] {
+  const changes: Array<string | null> = [];
+
+  if (previous.isValid !== current.isValid) {
+    changes.push(current.isValid ? 'Became valid' : `Became invalid${current.errorCode ? ` (${current.errorCode})` : ''}`);
+  }
+  if (previous.itemCount !== current.itemCount) {
+    changes.push(`Items: ${previous.itemCount ?? '–'} → ${current.itemCount ?? '–'}`);
+  }
+  // Failed checks have no items, so only compare dates both checks saw
+  if (previous.latestItemAt && current.latestItemAt && current.latestItemAt > previous.latestItemAt) {
+    changes.push(`New content (latest item ${current.lastUpdate || current.latestItemAt})`);
+  }
+  changes.push(countChange('Duplicate GUIDs', previous.duplicateGuids.length, current.duplicateGuids.length));
+  changes.push(countChange('Validation errors', previous.validationErrors.length, current.validationErrors.length));
+  if (previous.hasFeaturedImage !== current.hasFeaturedImage) {
+    changes.push(current.hasFeaturedImage ? 'Featured images appeared' : 'Featured images disappeared');
+  }
+
+  return changes.filter((change): change is string => change !== null);
+}
+
+/**
+ * Pairs each snapshot with its changes, newest first as the history view lists them
+ */
+export function buildHistory(history: FeedSnapshot[]): HistoryEntry[] {
+  return history
+    .map((snapshot, index) => ({
+      snapshot: summarizeSnapshot(snapshot),
+      changes: index > 0 ? describeSnapshotChanges(history[index - 1], snapshot) : ['First check'],
+    }))
+    .reverse();
+}
@@ -0,0 +1,213 @@
+import { DC_NAMESPACE } from './date-audit';
+import { SYNDICATION_NAMESPACE } from './http-caching';
+import { ITUNES_NAMESPACE, PODCAST_NAMESPACE } from './podcast';
+import { ATOM_NAMESPACE, createDiagnosticCollector, RDF_NAMESPACE, RSS1_NAMESPACE, ValidationDiagnostic } from './validation';
+import { walkElements, XmlElement } from './xml';
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+const MAX_EXAMPLE_LENGTH = 80;
+
+interface KnownNamespace {
+  prefix: string; // The prefix feeds usually bind it to
+  name: string;
+  uri: string;
+  aliases?: string[]; // Other URIs readers accept for it
+}
+
+export const KNOWN_NAMESPACES: KnownNamespace[] = [
+  { prefix: 'atom', name: 'Atom', uri: ATOM_NAMESPACE },
+  { prefix: 'content', name: 'RSS content module', uri: 'http://purl.org/rss/1.0/modules/content/' },
+  { prefix: 'dc', name: 'Dublin Core', uri: DC_NAMESPACE, aliases: ['http://purl.org/dc/elements/1.0/'] },
+  { prefix: 'dcterms', name: 'Dublin Core terms', uri: 'http://purl.org/dc/terms/' },
+  { prefix: 'media', name: 'Media RSS', uri: 'http://search.yahoo.com/mrss/' },
+  { prefix: 'itunes', name: 'iTunes podcast', uri: ITUNES_NAMESPACE },
+  {
+    prefix: 'podcast',
+    name: 'Podcasting 2.0',
+    uri: PODCAST_NAMESPACE,
+    aliases: ['https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md'],
+  },
+  { prefix: 'googleplay', name: 'Google Play podcasts', uri: 'http://www.google.com/schemas/play-podcasts/1.0' },
+  { prefix: 'georss', name: 'GeoRSS', uri: 'http://www.georss.org/georss' },
+  { prefix: 'geo', name: 'W3C Basic Geo', uri: 'http://www.w3.org/2003/01/geo/wgs84_pos#' },
+  { prefix: 'slash', name: 'Slash', uri: 'http://purl.org/rss/1.0/modules/slash/' },
+  { prefix: 'wfw', name: 'Well-Formed Web comments', uri: 'http://wellformedweb.org/CommentAPI/' },
+  { prefix: 'sy', name: 'RSS syndication module', uri: SYNDICATION_NAMESPACE },
+  { prefix: 'admin', name: 'RSS admin module', uri: 'http://webns.net/mvcb/' },
+  { prefix: 'thr', name: 'Atom threading', uri: 'http://purl.org/syndication/thread/1.0' },
+  { prefix: 'feedburner', name: 'FeedBurner', uri: 'http://rssnamespace.org/feedburner/ext/1.0' },
+  { prefix: 'creativeCommons', name: 'Creative Commons', uri: 'http://backend.userland.com/creativeCommonsRssModule' },
+  { prefix: 'rdf', name: 'RDF', uri: RDF_NAMESPACE },
+  { prefix: 'rss', name: 'RSS 1.0', uri: RSS1_NAMESPACE },
+  { prefix: 'xhtml', name: 'XHTML', uri: 'http://www.w3.org/1999/xhtml' },
+  { prefix: 'xml', name: 'XML', uri: XML_NAMESPACE },
+];
+
+export interface NamespaceTerm {
+  name: string; // Qualified name as written, e.g. "media:content"; attributes start with "@"
+  count: number;
+  example: string | null; // First non-empty text, or the URL or first attribute of an empty element
+}
+
+export interface NamespaceUsage {
+  uri: string | null; // Null for a prefix that is used but never declared
+  prefixes: string[]; // "" for a default namespace
+  name: string | null; // The extension's name, when it is a known namespace
+  declared: boolean;
+  elementCount: number;
+  attributeCount: number;
+  terms: NamespaceTerm[];
+}
+
+/**
+ * Every namespace the feed declares or uses, with the problems that hide an extension from readers
+ */
+export interface NamespaceInventory {
+  namespaces: NamespaceUsage[];
+  diagnostics: ValidationDiagnostic[];
+}
+
+/**
+ * Walks the whole document, so extensions the parser is not configured to read are listed too.
+ * Returns null when the content is not XML (no parsed root).
+ */
+export function inventoryNamespaces(feedContent: string, root: XmlElement | null): NamespaceInventory | null {
+  if (!root) return null;
+
+  const { report, done } = createDiagnosticCollector(feedContent);
+  const usages = new Map<string, NamespaceUsage>();
+  // Undeclared prefixes, reported once each with the first place they are used
+  const undeclared = new Map<string, { at: XmlElement; count: number }>();
+  const scopes = new Map<XmlElement, Map<string, string>>();
+
+  const getUsage = (key: string, uri: string | null, declared: boolean): NamespaceUsage => {
+    let usage = usages.get(key);
+    if (!usage) {
+      usage = {
+        uri,
+        prefixes: [],
+        name: uri ? findKnownNamespace(uri)?.name || null : null,
+        declared,
+        elementCount: 0,
+        attributeCount: 0,
+        terms: [],
+      };
+      usages.set(key, usage);
+    }
+    return usage;
+  };
+
+  const record = (prefix: string, uri: string | undefined, name: string, example: string | null, kind: 'element' | 'attribute', at: XmlElement) => {
+    const usage = uri !== undefined ? getUsage(uri, uri, true) : getUsage(`prefix:${prefix}`, null, false);
+    if (!usage.prefixes.includes(prefix)) usage.prefixes.push(prefix);
+    if (kind === 'element') usage.elementCount++;
+    else usage.attributeCount++;
+
+    const termName = kind === 'attribute' ? `@${name}` : name;
+    const term = usage.terms.find((entry) => entry.name === termName);
+    if (term) {
+      term.count++;
+      term.example = term.example || example;
+    } else {
+      usage.terms.push({ name: termName, count: 1, example });
+    }
+
+    if (uri === undefined) {
+      const entry = undeclared.get(prefix);
+      if (entry) entry.count++;
+      else undeclared.set(prefix, { at, count: 1 });
+    }
+  };
+
+  walkElements(root, (element) => {
+    // Declarations in scope: the parent's plus this element's own; "xml" is always bound
+    const inherited = element.parent ? scopes.get(element.parent) : undefined;
+    const scope = new Map<string, string>(inherited ? Array.from(inherited.entries()) : [['xml', XML_NAMESPACE]]);
+    for (const [attribute, value] of Object.entries(element.attributes)) {
+      if (attribute !== 'xmlns' && !attribute.startsWith('xmlns:')) continue;
+      const prefix = attribute === 'xmlns' ? '' : attribute.slice('xmlns:'.length);
+      scope.set(prefix, value);
+      if (value) {
+        const usage = getUsage(value, value, true);
+        if (!usage.prefixes.includes(prefix)) usage.prefixes.push(prefix);
+        checkDeclaredUri(prefix, value, element, report);
+      }
+    }
+    scopes.set(element, scope);
+
+    // Unprefixed elements outside any default namespace, like the RSS 2.0 core, are not an extension
+    const elementUri = scope.get(element.prefix) || undefined;
+    if (element.prefix || elementUri) {
+      record(element.prefix, elementUri, element.name, getElementExample(element), 'element', element);
+    }
+    for (const [attribute, value] of Object.entries(element.attributes)) {
+      const separator = attribute.indexOf(':');
+      if (separator === -1 || attribute.startsWith('xmlns:')) continue;
+      const prefix = attribute.slice(0, separator);
+      record(prefix, scope.get(prefix) || undefined, attribute, truncate(value), 'attribute', element);
+    }
+  });
+
+  Array.from(undeclared.entries()).forEach(([prefix, { at, count }]) => {
+    const known = KNOWN_NAMESPACES.find((namespace) => namespace.prefix === prefix);
+    const suggestion = known ? `; add xmlns:${prefix}="${known.uri}" to the root element` : '';
+    const suffix = count > 1 ? ` (${count} uses)` : '';
+    report('error', 'namespace-undeclared', `Prefix "${prefix}" is used but never declared${suggestion}${suffix}`, at);
+  });
+
+  return {
+    namespaces: Array.from(usages.values()).map((usage) => ({
+      ...usage,
+      terms: usage.terms.sort((a, b) => b.count - a.count),
+    })),
+    diagnostics: done().diagnostics,
+  };
+}
+
+function findKnownNamespace(uri: string): KnownNamespace | undefined {
+  return KNOWN_NAMESPACES.find((namespace) => namespace.uri === uri || namespace.aliases?.includes(uri));
+}
+
+/**
+ * Namespaces match by exact URI, so a declaration that is almost a known one hides all of its elements.
+ * Only differences in scheme, "www.", case and punctuation count: a changed version number or path
+ * segment is usually another (often older) namespace, not a typo.
+ */
+function checkDeclaredUri(
+  prefix: string,
+  uri: string,
+  at: XmlElement,
+  report: ReturnType<typeof createDiagnosticCollector>['report']
+): void {
+  if (findKnownNamespace(uri)) return;
+
+  const normalized = normalizeUri(uri);
+  const intended = KNOWN_NAMESPACES.find((namespace) => normalizeUri(namespace.uri) === normalized);
+  if (intended) {
+    const declaration = prefix ? `xmlns:${prefix}` : 'xmlns';
+    report(
+      'warning',
+      'namespace-uri',
+      `${declaration}="${uri}" looks like the ${intended.name} namespace "${intended.uri}"; readers match the URI exactly and will ignore these elements`,
+      at
+    );
+  }
+}
+
+function normalizeUri(uri: string): string {
+  return uri.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/[^a-z0-9]+/g, '');
+}
+
+function getElementExample(element: XmlElement): string | null {
+  const text = element.text.trim();
+  if (text) return truncate(text);
+  const { url, href } = element.attributes;
+  if (url || href) return truncate(url || href);
+  const first = Object.entries(element.attributes).find(([name]) => name !== 'xmlns' && !name.startsWith('xmlns:'));
+  return first ? truncate(`${first[0]}="${first[1]}"`) : null;
+}
+
+function truncate(value: string): string {
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_EXAMPLE_LENGTH ? `${text.slice(0, MAX_EXAMPLE_LENGTH)}…` : text;
+}
@@ -0,0 +1,167 @@
+import dns from 'node:dns';
+import net from 'node:net';
+
+/**
+ * Ranges a server-side fetch must never reach unless a host is explicitly allowlisted:
+ * loopback, private (RFC 1918), link-local (including cloud metadata at 169.254.169.254),
+ * carrier-grade NAT, benchmarking, multicast and reserved space, for IPv4 and IPv6.
+ */
+const DEFAULT_BLOCKED_CIDRS = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '224.0.0.0/4',
+  '240.0.0.0/4',
+  '::/128',
+  '::1/128',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+];
+const DEFAULT_ALLOWED_SCHEMES = ['http:', 'https:'];
+const DEFAULT_MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+
+export interface NetworkPolicy {
+  allowedSchemes: string[]; // With trailing colon, as in URL.protocol
+  blockedCidrs: string[];
+  maxResponseBytes: number;
+  hostAllowlist: string[]; // Always permitted, even when they resolve to a blocked range
+  hostDenylist: string[]; // Always refused
+}
+
+export type PolicyViolation = 'scheme' | 'host-denied' | 'blocked-address' | 'too-large';
+
+/**
+ * A request refused by the network policy; `reason` says which rule refused it
+ */
+export class NetworkPolicyError extends Error {
+  reason: PolicyViolation;
+  host: string | null;
+
+  constructor(reason: PolicyViolation, message: string, host: string | null = null) {
+    super(message);
+    this.name = 'NetworkPolicyError';
+    this.reason = reason;
+    this.host = host;
+  }
+}
+
+function readList(name: string): string[] | null {
+  const value = process.env[name];
+  if (value === undefined) return null;
+  return value.split(',').map((entry) => entry.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * The policy for this deployment. Every setting can be overridden with an environment variable:
+ * FEED_ANALYZER_ALLOWED_SCHEMES, FEED_ANALYZER_BLOCKED_CIDRS, FEED_ANALYZER_MAX_RESPONSE_BYTES,
+ * FEED_ANALYZER_HOST_ALLOWLIST and FEED_ANALYZER_HOST_DENYLIST (lists are comma-separated).
+ */
+export function getNetworkPolicy(): NetworkPolicy {
+  const maxResponseBytes = Number(process.env.FEED_ANALYZER_MAX_RESPONSE_BYTES);
+  return {
+    allowedSchemes: (readList('FEED_ANALYZER_ALLOWED_SCHEMES') || DEFAULT_ALLOWED_SCHEMES).map((scheme) =>
+      scheme.endsWith(':') ? scheme : `${scheme}:`
+    ),
+    blockedCidrs: readList('FEED_ANALYZER_BLOCKED_CIDRS') || DEFAULT_BLOCKED_CIDRS,
+    maxResponseBytes: maxResponseBytes > 0 ? maxResponseBytes : DEFAULT_MAX_RESPONSE_BYTES,
+    hostAllowlist: readList('FEED_ANALYZER_HOST_ALLOWLIST') || [],
+    hostDenylist: readList('FEED_ANALYZER_HOST_DENYLIST') || [],
+  };
+}
+
+/**
+ * Whether a host matches a list entry exactly or as a subdomain ("example.com" covers "feeds.example.com")
+ */
+function matchesHost(host: string, entries: string[]): boolean {
+  return entries.some((entry) => host === entry || (!net.isIP(host) && host.endsWith(`.${entry}`)));
+}
+
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[|\]$/g, '');
+}
+
+function buildBlockList(cidrs: string[]): net.BlockList {
+  const blockList = new net.BlockList();
+  for (const cidr of cidrs) {
+    const [address, prefix] = cidr.split('/');
+    const type = net.isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    blockList.addSubnet(address, Number(prefix ?? (type === 'ipv6' ? 128 : 32)), type);
+  }
+  return blockList;
+}
+
+/**
+ * Checks the parts of a URL that are known before connecting: scheme, host lists and IP literals.
+ * Called for the initial URL and again for every redirect target.
+ */
+export function checkUrl(url: URL, policy: NetworkPolicy): void {
+  if (!policy.allowedSchemes.includes(url.protocol)) {
+    throw new NetworkPolicyError(
+      'scheme',
+      `Blocked by network policy: the ${url.protocol.replace(/:$/, '')} scheme is not allowed (allowed: ${policy.allowedSchemes.map((scheme) => scheme.replace(/:$/, '')).join(', ')})`
+    );
+  }
+
+  const host = normalizeHost(url.hostname);
+  if (matchesHost(host, policy.hostDenylist)) {
+    throw new NetworkPolicyError('host-denied', `Blocked by network policy: ${host} is on the host denylist`, host);
+  }
+
+  if (net.isIP(host)) {
+    checkAddress(host, host, policy);
+  }
+}
+
+/**
+ * Rejects an address inside a blocked range unless its host is allowlisted
+ */
+export function checkAddress(address: string, host: string, policy: NetworkPolicy): void {
+  if (matchesHost(normalizeHost(host), policy.hostAllowlist)) return;
+
+  const type = net.isIP(address) === 6 ? 'ipv6' : 'ipv4';
+  if (buildBlockList(policy.blockedCidrs).check(address, type)) {
+    const target = host === address ? address : `${host} resolves to ${address}, which`;
+    throw new NetworkPolicyError(
+      'blocked-address',
+      `Blocked by network policy: ${target} is in a private or reserved range`,
+      host
+    );
+  }
+}
+
+/**
+ * A dns.lookup replacement for http.request that checks every resolved address before
+ * the socket connects, so a hostname cannot smuggle a request to a blocked range.
+ */
+export function createPolicyLookup(policy: NetworkPolicy): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 4);
+        return;
+      }
+      try {
+        for (const { address } of addresses) {
+          checkAddress(address, hostname, policy);
+        }
+      } catch (policyError: any) {
+        callback(policyError, '', 4);
+        return;
+      }
+
+      // Node asks for every address when it races IPv4 and IPv6 connections
+      if ((options as dns.LookupOptions).all) {
+        (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
@@ -0,0 +1,129 @@
+import { parseXml, walkElements } from './xml';
+
+export interface OpmlOutline {
+  xmlUrl: string;
+  title: string | null;
+  htmlUrl: string | null;
+  folders: string[]; // Titles of the enclosing folder outlines, outermost first; names may contain "/"
+}
+
+/**
+ * Extracts every feed outline (an <outline> with an xmlUrl) from an OPML document
+ */
+export function parseOpml(content: string): OpmlOutline[] {
+  const document = parseXml(content);
+  if (!document.root || document.errors.length > 0) {
+    const error = document.errors[0];
+    throw new Error(
+      error ? `OPML is not well-formed XML: ${error.message} (line ${error.line}, column ${error.column})` : 'OPML file is empty'
+    );
+  }
+  if (document.root.name !== 'opml') {
+    throw new Error(`Expected an <opml> document but found <${document.root.name}>`);
+  }
+
+  const outlines: OpmlOutline[] = [];
+  walkElements(document.root, (element) => {
+    if (element.name !== 'outline' || !element.attributes.xmlUrl) return;
+
+    const folders: string[] = [];
+    for (let parent = element.parent; parent && parent.name === 'outline'; parent = parent.parent) {
+      folders.unshift(parent.attributes.title || parent.attributes.text || '');
+    }
+
+    outlines.push({
+      xmlUrl: element.attributes.xmlUrl.trim(),
+      title: element.attributes.title || element.attributes.text || null,
+      htmlUrl: element.attributes.htmlUrl || null,
+      folders: folders.filter(Boolean),
+    });
+  });
+  return outlines;
+}
+
+/**
+ * A feed to write back out, annotated with what the analysis found
+ */
+export interface OpmlExportEntry {
+  xmlUrl: string;
+  title: string | null;
+  htmlUrl: string | null;
+  folders: string[];
+  feedType: string | null;
+  postFrequency: string | null;
+}
+
+interface OpmlFolder {
+  name: string;
+  folders: OpmlFolder[];
+  entries: OpmlExportEntry[];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Builds an OPML 2.0 subscription list, nesting outlines by category folder.
+ * feedType and postFrequency are written as extra outline attributes, which OPML allows.
+ */
+export function buildOpml(entries: OpmlExportEntry[], title = 'Analyzed feeds'): string {
+  const root: OpmlFolder = { name: '', folders: [], entries: [] };
+  for (const entry of entries) {
+    let folder = root;
+    for (const name of entry.folders) {
+      let child = folder.folders.find((candidate) => candidate.name === name);
+      if (!child) {
+        child = { name, folders: [], entries: [] };
+        folder.folders.push(child);
+      }
+      folder = child;
+    }
+    folder.entries.push(entry);
+  }
+
+  const renderEntry = (entry: OpmlExportEntry, indent: string) => {
+    const text = entry.title || entry.xmlUrl;
+    const attributes: Array<[string, string | null]> = [
+      ['type', 'rss'],
+      ['text', text],
+      ['title', text],
+      ['xmlUrl', entry.xmlUrl],
+      ['htmlUrl', entry.htmlUrl],
+      ['feedType', entry.feedType],
+      ['postFrequency', entry.postFrequency],
+    ];
+    const rendered = attributes
+      .filter((attribute): attribute is [string, string] => Boolean(attribute[1]))
+      .map(([name, value]) => `${name}="${escapeXml(value)}"`)
+      .join(' ');
+    return `${indent}<outline ${rendered}/>`;
+  };
+
+  const renderFolder = (folder: OpmlFolder, indent: string): string[] => [
+    ...folder.folders.flatMap((child) => [
+      `${indent}<outline text="${escapeXml(child.name)}" title="${escapeXml(child.name)}">`,
+      ...renderFolder(child, indent + '  '),
+      `${indent}</outline>`,
+    ]),
+    ...folder.entries.map((entry) => renderEntry(entry, indent)),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...renderFolder(root, '    '),
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
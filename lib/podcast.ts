@@ -0,0 +1,347 @@
+import { FeedFormat } from './feed-format';
+import { ImageDimensions, probeFeedImages } from './image-probe';
+import { createDiagnosticCollector, createGroupedReporter, Reporter, ValidationDiagnostic } from './validation';
+import { childElement, childElements, XmlElement } from './xml';
+
+export const ITUNES_NAMESPACE = 'http://www.itunes.com/dtds/podcast-1.0.dtd';
+export const PODCAST_NAMESPACE = 'https://podcastindex.org/namespace/1.0';
+
+// Apple Podcasts top-level categories
+const ITUNES_CATEGORIES = [
+  'Arts', 'Business', 'Comedy', 'Education', 'Fiction', 'Government', 'History', 'Health & Fitness',
+  'Kids & Family', 'Leisure', 'Music', 'News', 'Religion & Spirituality', 'Science', 'Society & Culture',
+  'Sports', 'Technology', 'True Crime', 'TV & Film',
+];
+
+// Enclosure MIME types directories accept for each file extension
+const MEDIA_TYPES: Record<string, string[]> = {
+  mp3: ['audio/mpeg', 'audio/mp3'],
+  m4a: ['audio/x-m4a', 'audio/mp4', 'audio/m4a'],
+  aac: ['audio/aac', 'audio/x-aac'],
+  mp4: ['video/mp4', 'audio/mp4'],
+  m4v: ['video/x-m4v', 'video/mp4'],
+  mov: ['video/quicktime'],
+  ogg: ['audio/ogg'],
+  oga: ['audio/ogg'],
+  opus: ['audio/opus', 'audio/ogg'],
+  wav: ['audio/wav', 'audio/x-wav', 'audio/wave'],
+  flac: ['audio/flac', 'audio/x-flac'],
+  pdf: ['application/pdf'],
+};
+
+// Show artwork limits in pixels, as Apple Podcasts enforces them
+const MIN_ARTWORK_SIZE = 1400;
+const MAX_ARTWORK_SIZE = 3000;
+
+// Seconds, MM:SS or HH:MM:SS
+const DURATION_PATTERN = /^(\d+|\d{1,2}:[0-5]\d|\d+:[0-5]\d:[0-5]\d)$/;
+
+/**
+ * Podcast-directory readiness of an RSS feed: the iTunes and Podcasting 2.0 tags,
+ * episode enclosures and artwork, as Apple Podcasts and similar directories check them
+ */
+export interface PodcastReport {
+  detected: boolean; // False when podcast mode was requested for a feed that does not look like one
+  ready: boolean; // No errors
+  episodeCount: number;
+  mediaEpisodeCount: number; // Episodes with an audio or video enclosure
+  artworkUrl: string | null;
+  artwork: ImageDimensions | null; // Measured from the image header; null when not measured or unreadable
+  explicit: string | null;
+  categories: string[];
+  podcastTags: string[]; // Podcasting 2.0 tags in use, e.g. "podcast:transcript"
+  diagnostics: ValidationDiagnostic[];
+}
+
+export interface PodcastOptions {
+  measureArtwork?: boolean; // Download the artwork header to check its size and shape
+  deadline?: number; // Epoch ms after which the artwork is not measured
+}
+
+export async function analyzePodcast(
+  feedContent: string,
+  format: FeedFormat,
+  root: XmlElement | null,
+  options: PodcastOptions = {}
+): Promise<PodcastReport> {
+  const { report, done } = createDiagnosticCollector(feedContent);
+  const channel = format === 'rss' && root && root.name === 'rss' ? childElement(root, 'channel') : null;
+  const result: PodcastReport = {
+    detected: channel !== null && looksLikePodcast(channel),
+    ready: false,
+    episodeCount: 0,
+    mediaEpisodeCount: 0,
+    artworkUrl: null,
+    artwork: null,
+    explicit: null,
+    categories: [],
+    podcastTags: [],
+    diagnostics: [],
+  };
+
+  if (!channel) {
+    report('error', 'podcast-rss', 'Podcast directories only accept RSS 2.0 feeds with a <channel>');
+  } else {
+    checkChannel(channel, report, result);
+    const image = itunes(channel, 'image');
+    const href = image?.attributes.href?.trim();
+    if (image && href && options.measureArtwork) {
+      await checkArtwork(href, image, report, result, options.deadline);
+    }
+    const items = childElements(channel, 'item');
+    result.episodeCount = items.length;
+    checkEpisodes(items, report, result);
+    result.podcastTags = checkPodcastNamespace(channel, report);
+  }
+
+  const { isValid, diagnostics } = done();
+  result.ready = isValid;
+  result.diagnostics = diagnostics;
+  return result;
+}
+
+/**
+ * A feed looks like a podcast when it uses the iTunes namespace or has media enclosures
+ */
+function looksLikePodcast(channel: XmlElement): boolean {
+  return (
+    channel.children.some((child) => child.uri === ITUNES_NAMESPACE) ||
+    childElements(channel, 'item').some((item) => isMediaType(childElement(item, 'enclosure')?.attributes.type))
+  );
+}
+
+function itunes(element: XmlElement, local: string): XmlElement | null {
+  return element.children.find((child) => child.uri === ITUNES_NAMESPACE && child.local === local) || null;
+}
+
+function isMediaType(type: string | undefined): boolean {
+  return !!type && /^(audio|video)\//i.test(type);
+}
+
+function checkChannel(channel: XmlElement, report: Reporter, result: PodcastReport): void {
+  if (!channel.children.some((child) => child.uri === ITUNES_NAMESPACE)) {
+    report('error', 'itunes-namespace', `No itunes:* tags found; declare xmlns:itunes="${ITUNES_NAMESPACE}" and add the show tags`, channel);
+  }
+
+  const image = itunes(channel, 'image');
+  const href = image?.attributes.href?.trim();
+  const rssImage = childElement(channel, 'image');
+  result.artworkUrl = href || (rssImage && childElement(rssImage, 'url')?.text.trim()) || null;
+  if (!image || !href) {
+    report('error', 'itunes-image', 'Missing <itunes:image href="…"> show artwork (1400×1400 to 3000×3000 px, JPEG or PNG)', image || channel);
+  } else {
+    if (!/\.(jpe?g|png)(\?|$)/i.test(href)) {
+      report('warning', 'itunes-image-format', 'Show artwork should be a .jpg or .png file', image);
+    }
+    if (href.startsWith('http:')) {
+      report('warning', 'itunes-image-https', 'Show artwork should be served over HTTPS', image);
+    }
+  }
+
+  const explicit = itunes(channel, 'explicit');
+  result.explicit = explicit?.text.trim() || null;
+  if (!explicit) {
+    report('error', 'itunes-explicit', 'Missing <itunes:explicit> (true or false)', channel);
+  } else {
+    checkExplicit(explicit, report);
+  }
+
+  const categories = channel.children.filter((child) => child.uri === ITUNES_NAMESPACE && child.local === 'category');
+  result.categories = categories.map((category) => category.attributes.text).filter(Boolean);
+  if (categories.length === 0) {
+    report('error', 'itunes-category', 'Missing <itunes:category text="…">', channel);
+  }
+  for (const category of categories) {
+    if (!category.attributes.text) {
+      report('error', 'itunes-category', 'itunes:category needs a text attribute', category);
+    } else if (!ITUNES_CATEGORIES.includes(category.attributes.text)) {
+      report('warning', 'itunes-category', `"${category.attributes.text}" is not an Apple Podcasts category`, category);
+    }
+  }
+
+  if (!itunes(channel, 'author')) {
+    report('warning', 'itunes-author', 'Missing <itunes:author>; directories show it as the show\'s creator', channel);
+  }
+  const owner = itunes(channel, 'owner');
+  if (!owner || !itunes(owner, 'email')) {
+    report('warning', 'itunes-owner', 'Missing <itunes:owner> with <itunes:email>; directories use it to verify ownership', owner || channel);
+  }
+  if (!childElement(channel, 'language')) {
+    report('warning', 'podcast-language', 'Missing <language>; directories use it to list the show', channel);
+  }
+  if (!childElement(channel, 'description') && !itunes(channel, 'summary')) {
+    report('error', 'podcast-description', 'Missing show <description>', channel);
+  }
+
+  const type = itunes(channel, 'type');
+  if (type && !['episodic', 'serial'].includes(type.text.trim())) {
+    report('error', 'itunes-type', `itunes:type must be "episodic" or "serial", not "${type.text.trim()}"`, type);
+  }
+}
+
+/**
+ * Directories reject artwork outside 1400–3000 px or not square, whatever the file name says
+ */
+async function checkArtwork(href: string, image: XmlElement, report: Reporter, result: PodcastReport, deadline?: number): Promise<void> {
+  const [probe] = (await probeFeedImages([href], deadline)).images;
+  if (!probe) return; // Not reached before the deadline
+  if (probe.format === null || probe.width === null || probe.height === null) {
+    report('warning', 'itunes-image-size', `Could not measure the show artwork: ${probe.error || 'unreadable image'}`, image);
+    return;
+  }
+
+  result.artwork = { format: probe.format, width: probe.width, height: probe.height };
+  const size = `${probe.width}×${probe.height} px`;
+  if (probe.width < MIN_ARTWORK_SIZE || probe.height < MIN_ARTWORK_SIZE) {
+    report('error', 'itunes-image-size', `Show artwork is ${size}; directories require at least ${MIN_ARTWORK_SIZE}×${MIN_ARTWORK_SIZE} px`, image);
+  } else if (probe.width > MAX_ARTWORK_SIZE || probe.height > MAX_ARTWORK_SIZE) {
+    report('error', 'itunes-image-size', `Show artwork is ${size}; directories accept at most ${MAX_ARTWORK_SIZE}×${MAX_ARTWORK_SIZE} px`, image);
+  }
+  if (probe.width !== probe.height) {
+    report('error', 'itunes-image-square', `Show artwork is ${size}; it must be square`, image);
+  }
+  if (probe.format !== 'jpeg' && probe.format !== 'png') {
+    report('warning', 'itunes-image-format', `Show artwork is a ${probe.format.toUpperCase()} file; directories expect JPEG or PNG`, image);
+  }
+}
+
+function checkExplicit(explicit: XmlElement, report: Reporter): void {
+  const value = explicit.text.trim().toLowerCase();
+  if (['yes', 'no', 'clean', 'explicit'].includes(value)) {
+    report('warning', 'itunes-explicit', `itunes:explicit "${explicit.text.trim()}" is deprecated; use true or false`, explicit);
+  } else if (value !== 'true' && value !== 'false') {
+    report('error', 'itunes-explicit', `itunes:explicit must be true or false, not "${explicit.text.trim()}"`, explicit);
+  }
+}
+
+/**
+ * Episode problems are grouped by rule so a large back catalogue reports each problem once
+ */
+function checkEpisodes(items: XmlElement[], report: Reporter, result: PodcastReport): void {
+  const { flag, flush } = createGroupedReporter(report, () => 'episodes');
+
+  for (const item of items) {
+    if (!childElement(item, 'title')) flag('error', 'episode-title', 'Episode has no <title>', item);
+    if (!childElement(item, 'guid')) flag('warning', 'episode-guid', 'Episode has no <guid>; apps may re-download it when the URL changes', item);
+    if (!childElement(item, 'pubDate')) flag('warning', 'episode-pubdate', 'Episode has no <pubDate>', item);
+
+    const enclosure = childElement(item, 'enclosure');
+    if (!enclosure) {
+      flag('error', 'episode-enclosure', 'Episode has no <enclosure>', item);
+    } else {
+      checkEnclosure(enclosure, flag);
+      if (isMediaType(enclosure.attributes.type)) result.mediaEpisodeCount++;
+    }
+
+    const duration = itunes(item, 'duration');
+    if (!duration) {
+      flag('warning', 'itunes-duration', 'Episode has no <itunes:duration>', item);
+    } else if (!DURATION_PATTERN.test(duration.text.trim())) {
+      flag('error', 'itunes-duration-format', `itunes:duration "${duration.text.trim()}" is not seconds, MM:SS or HH:MM:SS`, duration);
+    }
+
+    const explicit = itunes(item, 'explicit');
+    const explicitValue = explicit?.text.trim().toLowerCase();
+    if (explicit && explicitValue !== 'true' && explicitValue !== 'false') {
+      flag('warning', 'itunes-explicit-episode', `Episode itunes:explicit "${explicit.text.trim()}" should be true or false`, explicit);
+    }
+
+    const episodeType = itunes(item, 'episodeType');
+    if (episodeType && !['full', 'trailer', 'bonus'].includes(episodeType.text.trim())) {
+      flag('error', 'itunes-episode-type', `itunes:episodeType must be full, trailer or bonus, not "${episodeType.text.trim()}"`, episodeType);
+    }
+    for (const local of ['episode', 'season']) {
+      const number = itunes(item, local);
+      if (number && !/^[1-9]\d*$/.test(number.text.trim())) {
+        flag('error', `itunes-${local}`, `itunes:${local} must be a positive whole number, not "${number.text.trim()}"`, number);
+      }
+    }
+  }
+
+  flush();
+}
+
+function checkEnclosure(enclosure: XmlElement, flag: Reporter): void {
+  const { url, length, type } = enclosure.attributes;
+  if (!url) {
+    flag('error', 'enclosure-url', 'Enclosure has no url attribute', enclosure);
+    return;
+  }
+  if (!type) {
+    flag('error', 'enclosure-type', 'Enclosure has no type attribute', enclosure);
+  } else {
+    const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+    const expected = MEDIA_TYPES[extension];
+    if (expected && !expected.includes(type.toLowerCase())) {
+      flag('warning', 'enclosure-type-mismatch', `Enclosure type ${type} does not match a .${extension} file (expected ${expected[0]})`, enclosure);
+    } else if (!isMediaType(type) && type !== 'application/pdf') {
+      flag('error', 'enclosure-media-type', `Enclosure type ${type} is not audio or video`, enclosure);
+    }
+  }
+
+  if (length === undefined) {
+    flag('error', 'enclosure-length', 'Enclosure has no length attribute (file size in bytes)', enclosure);
+  } else if (!/^\d+$/.test(length.trim())) {
+    flag('error', 'enclosure-length', `Enclosure length "${length}" is not a number of bytes`, enclosure);
+  } else if (Number(length) === 0) {
+    flag('warning', 'enclosure-length-zero', 'Enclosure length is 0; give the file size in bytes', enclosure);
+  }
+}
+
+/**
+ * Checks the required attributes of the Podcasting 2.0 tags the feed uses and returns their names
+ */
+function checkPodcastNamespace(channel: XmlElement, report: Reporter): string[] {
+  const used = new Set<string>();
+  const elements = [
+    ...channel.children,
+    ...childElements(channel, 'item').flatMap((item) => item.children),
+  ].filter((element) => element.uri === PODCAST_NAMESPACE);
+
+  for (const element of elements) {
+    used.add(`podcast:${element.local}`);
+    const { attributes } = element;
+    switch (element.local) {
+      case 'transcript':
+      case 'chapters':
+        if (!attributes.url || !attributes.type) {
+          report('error', `podcast-${element.local}`, `podcast:${element.local} needs url and type attributes`, element);
+        }
+        break;
+      case 'funding':
+        if (!attributes.url) report('error', 'podcast-funding', 'podcast:funding needs a url attribute', element);
+        break;
+      case 'locked':
+        if (!['yes', 'no'].includes(element.text.trim())) {
+          report('error', 'podcast-locked', `podcast:locked must be yes or no, not "${element.text.trim()}"`, element);
+        }
+        break;
+      case 'guid':
+        if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(element.text.trim())) {
+          report('error', 'podcast-guid', 'podcast:guid must be a UUID', element);
+        }
+        break;
+      case 'season':
+      case 'episode':
+        if (!/^\d+(\.\d+)?$/.test(element.text.trim())) {
+          report('error', `podcast-${element.local}`, `podcast:${element.local} must be a number, not "${element.text.trim()}"`, element);
+        }
+        break;
+      case 'soundbite':
+        if (isNaN(Number(attributes.startTime)) || isNaN(Number(attributes.duration)) || !attributes.startTime || !attributes.duration) {
+          report('error', 'podcast-soundbite', 'podcast:soundbite needs numeric startTime and duration attributes', element);
+        }
+        break;
+      case 'value':
+        if (!attributes.type || !attributes.method) {
+          report('error', 'podcast-value', 'podcast:value needs type and method attributes', element);
+        }
+        break;
+    }
+  }
+
+  if (used.size > 0 && !channel.children.some((child) => child.uri === PODCAST_NAMESPACE && child.local === 'guid')) {
+    report('warning', 'podcast-guid', 'Add a podcast:guid so the show keeps its identity if the feed URL changes', channel);
+  }
+  return Array.from(used).sort();
+}
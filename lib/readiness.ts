@@ -0,0 +1,225 @@
+import type { FeedAnalysis } from './analyze';
+
+/**
+ * What an importer needs from a feed. Scoring only reads a finished analysis, so the home page
+ * re-scores a result when another profile is picked instead of analyzing the feed again.
+ */
+export interface ReadinessProfile {
+  id: string;
+  name: string;
+  description: string;
+  requiredFields: string[]; // Item fields, named as in `availableFields`, that every item must have
+  minItems: number;
+  freshnessDays: number | null; // The newest item may be at most this old
+  images: {
+    minCoverage: number; // Share of items (0-1) that need a featured image
+    checkDimensions: boolean; // Every probed image must meet the size and aspect ratio requirements
+  } | null;
+  contentType: 'full' | 'excerpt' | null;
+}
+
+export type ReadinessStatus = 'pass' | 'fail' | 'skipped';
+
+export interface ReadinessRule {
+  id: string;
+  label: string;
+  status: ReadinessStatus; // Skipped rules had no data to check and do not count
+  detail: string;
+  weight: number;
+}
+
+export interface ReadinessReport {
+  profile: string;
+  score: number; // 0-100, the weighted share of checked rules that pass
+  passed: boolean;
+  rules: ReadinessRule[];
+}
+
+// One missing field weighs less than a whole requirement like freshness
+const FIELD_WEIGHT = 1;
+const RULE_WEIGHT = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const READINESS_PROFILES: ReadinessProfile[] = [
+  {
+    id: 'news',
+    name: 'News importer',
+    description: 'Recent articles with full text and a card-sized featured image',
+    requiredFields: ['title', 'link', 'pubDate', 'guid'],
+    minItems: 5,
+    freshnessDays: 2,
+    images: { minCoverage: 0.8, checkDimensions: true },
+    contentType: 'full',
+  },
+  {
+    id: 'podcast',
+    name: 'Podcast directory',
+    description: 'Episodes with audio enclosures, published in the last three months',
+    requiredFields: ['title', 'enclosure', 'pubDate', 'guid'],
+    minItems: 1,
+    freshnessDays: 90,
+    images: null,
+    contentType: null,
+  },
+  {
+    id: 'newsletter',
+    name: 'Newsletter',
+    description: 'Full issues that can be sent as they are',
+    requiredFields: ['title', 'link', 'pubDate'],
+    minItems: 1,
+    freshnessDays: 31,
+    images: null,
+    contentType: 'full',
+  },
+];
+
+export function getReadinessProfile(id: string): ReadinessProfile | null {
+  return READINESS_PROFILES.find((profile) => profile.id === id) || null;
+}
+
+/**
+ * Checks an untrusted profile from a request body: a built-in profile id or a full profile object.
+ * Returns null when it is not usable.
+ */
+export function parseReadinessProfile(value: any): ReadinessProfile | null {
+  if (typeof value === 'string') return getReadinessProfile(value);
+  if (!value || typeof value !== 'object') return null;
+
+  const requiredFields = Array.isArray(value.requiredFields)
+    ? value.requiredFields.filter((field: any) => typeof field === 'string' && field.trim()).map((field: string) => field.trim())
+    : [];
+  const minItems = Number(value.minItems ?? 1);
+  const freshnessDays = value.freshnessDays == null ? null : Number(value.freshnessDays);
+  const minCoverage = Number(value.images?.minCoverage ?? 0);
+  if (!(minItems >= 0) || (freshnessDays !== null && !(freshnessDays > 0)) || !(minCoverage >= 0 && minCoverage <= 1)) {
+    return null;
+  }
+  if (value.contentType != null && value.contentType !== 'full' && value.contentType !== 'excerpt') return null;
+
+  return {
+    id: typeof value.id === 'string' && value.id.trim() ? value.id.trim() : 'custom',
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : 'Custom profile',
+    description: typeof value.description === 'string' ? value.description : '',
+    requiredFields,
+    minItems,
+    freshnessDays,
+    images: value.images ? { minCoverage, checkDimensions: value.images.checkDimensions === true } : null,
+    contentType: value.contentType ?? null,
+  };
+}
+
+/**
+ * Scores an analysis against a profile. An invalid feed scores 0.
+ */
+export function scoreReadiness(analysis: FeedAnalysis, profile: ReadinessProfile, now: Date = new Date()): ReadinessReport {
+  if (!analysis.isValid) {
+    return {
+      profile: profile.id,
+      score: 0,
+      passed: false,
+      rules: [{ id: 'valid', label: 'Feed is valid', status: 'fail', detail: analysis.error || 'The feed could not be analyzed', weight: RULE_WEIGHT }],
+    };
+  }
+
+  const rules: ReadinessRule[] = [];
+  const items = analysis.items || [];
+  const itemCount = analysis.itemCount ?? items.length;
+
+  for (const field of profile.requiredFields) {
+    const coverage = analysis.fieldCoverage?.find((entry) => entry.field === field);
+    const present = coverage?.present ?? 0;
+    rules.push({
+      id: `field:${field}`,
+      label: `Every item has ${field}`,
+      status: itemCount > 0 && present === itemCount ? 'pass' : 'fail',
+      detail: `${field} present in ${present}/${itemCount} items`,
+      weight: FIELD_WEIGHT,
+    });
+  }
+
+  rules.push({
+    id: 'min-items',
+    label: `At least ${profile.minItems} item${profile.minItems === 1 ? '' : 's'}`,
+    status: itemCount >= profile.minItems ? 'pass' : 'fail',
+    detail: `${itemCount} item${itemCount === 1 ? '' : 's'} in the feed`,
+    weight: RULE_WEIGHT,
+  });
+
+  if (profile.freshnessDays !== null) {
+    rules.push(checkFreshness(items.map((item) => item.pubDate), profile.freshnessDays, now));
+  }
+
+  if (profile.images) {
+    const withImage = items.filter((item) => item.imageSource !== null).length;
+    const required = Math.ceil(profile.images.minCoverage * itemCount);
+    rules.push({
+      id: 'image-coverage',
+      label: `Featured image on ${Math.round(profile.images.minCoverage * 100)}% of items`,
+      status: withImage >= required ? 'pass' : 'fail',
+      detail: `${withImage}/${itemCount} items have a featured image`,
+      weight: RULE_WEIGHT,
+    });
+
+    if (profile.images.checkDimensions) {
+      const images = analysis.imageResolutions;
+      rules.push({
+        id: 'image-dimensions',
+        label: 'Images meet the size and aspect ratio requirements',
+        status: !images || images.probed === 0 ? 'skipped' : images.flagged === 0 ? 'pass' : 'fail',
+        detail: !images || images.probed === 0
+          ? 'No images were measured'
+          : `${images.flagged} of ${images.probed} images flagged`,
+        weight: RULE_WEIGHT,
+      });
+    }
+  }
+
+  if (profile.contentType) {
+    rules.push({
+      id: 'content-type',
+      label: profile.contentType === 'full' ? 'Items carry the full article' : 'Items carry an excerpt',
+      status: analysis.contentType === 'unknown' ? 'skipped' : analysis.contentType === profile.contentType ? 'pass' : 'fail',
+      detail: analysis.contentType === 'unknown' ? 'Content type could not be determined' : `Content looks like ${analysis.contentType === 'full' ? 'full articles' : 'excerpts'}`,
+      weight: RULE_WEIGHT,
+    });
+  }
+
+  const duplicates = analysis.duplicateGuids?.length ?? 0;
+  rules.push({
+    id: 'unique-guids',
+    label: 'GUIDs are unique',
+    status: duplicates === 0 ? 'pass' : 'fail',
+    detail: duplicates === 0 ? 'No duplicate GUIDs' : `${duplicates} GUID${duplicates === 1 ? ' is' : 's are'} shared by several items`,
+    weight: RULE_WEIGHT,
+  });
+
+  const checked = rules.filter((rule) => rule.status !== 'skipped');
+  const total = checked.reduce((sum, rule) => sum + rule.weight, 0);
+  const earned = checked.filter((rule) => rule.status === 'pass').reduce((sum, rule) => sum + rule.weight, 0);
+
+  return {
+    profile: profile.id,
+    score: total > 0 ? Math.round((earned / total) * 100) : 0,
+    passed: checked.every((rule) => rule.status === 'pass'),
+    rules,
+  };
+}
+
+function checkFreshness(pubDates: Array<string | null>, freshnessDays: number, now: Date): ReadinessRule {
+  const times = pubDates
+    .map((pubDate) => (pubDate ? new Date(pubDate).getTime() : NaN))
+    .filter((time) => !isNaN(time));
+  const label = `Newest item within ${freshnessDays} day${freshnessDays === 1 ? '' : 's'}`;
+  if (times.length === 0) {
+    return { id: 'freshness', label, status: 'fail', detail: 'No item has a valid date', weight: RULE_WEIGHT };
+  }
+
+  const ageDays = Math.max(0, (now.getTime() - Math.max(...times)) / DAY_MS);
+  return {
+    id: 'freshness',
+    label,
+    status: ageDays <= freshnessDays ? 'pass' : 'fail',
+    detail: ageDays < 1 ? 'Newest item is less than a day old' : `Newest item is ${Math.floor(ageDays)} days old`,
+    weight: RULE_WEIGHT,
+  };
+}
@@ -0,0 +1,280 @@
+import { parseXml, childElement, childElements, walkElements, XmlDocument, XmlElement } from './xml';
+
+export const ATOM_NAMESPACE = 'http://www.w3.org/2005/Atom';
+export const RDF_NAMESPACE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+export const RSS1_NAMESPACE = 'http://purl.org/rss/1.0/';
+
+// Cascading parser errors after the first few are rarely useful
+const MAX_WELL_FORMEDNESS_ERRORS = 20;
+const MAX_SNIPPET_LENGTH = 120;
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ValidationDiagnostic {
+  line: number;
+  column: number;
+  severity: DiagnosticSeverity;
+  rule: string;
+  message: string;
+  snippet: string;
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  diagnostics: ValidationDiagnostic[];
+}
+
+/**
+ * Extracts the source line a diagnostic points at, trimmed around the column
+ */
+function getSnippet(lines: string[], line: number, column: number): string {
+  const source = lines[line - 1] || '';
+  if (source.length <= MAX_SNIPPET_LENGTH) {
+    return source.trim();
+  }
+  const start = Math.max(0, column - 1 - MAX_SNIPPET_LENGTH / 2);
+  return source.slice(start, start + MAX_SNIPPET_LENGTH).trim();
+}
+
+export type Reporter = (
+  severity: DiagnosticSeverity,
+  rule: string,
+  message: string,
+  at?: { line: number; column: number }
+) => void;
+
+/**
+ * Collects diagnostics against a source document, attaching the snippet for each position
+ */
+export function createDiagnosticCollector(content: string): { report: Reporter; done: () => ValidationResult } {
+  const lines = content.split(/\r\n|\r|\n/);
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  const report: Reporter = (severity, rule, message, at = { line: 1, column: 1 }) => {
+    diagnostics.push({
+      line: at.line,
+      column: at.column,
+      severity,
+      rule,
+      message,
+      snippet: getSnippet(lines, at.line, at.column),
+    });
+  };
+
+  const done = (): ValidationResult => ({
+    isValid: !diagnostics.some((diagnostic) => diagnostic.severity === 'error'),
+    diagnostics,
+  });
+
+  return { report, done };
+}
+
+/**
+ * Wraps a reporter so each rule is reported once, at its first position, with how many times it matched.
+ * `flush` reports the groups; `countNoun` names what was counted for a rule.
+ */
+export function createGroupedReporter(
+  report: Reporter,
+  countNoun: (rule: string) => string
+): { flag: Reporter; flush: () => void } {
+  const groups = new Map<string, { severity: DiagnosticSeverity; message: string; at?: { line: number; column: number }; count: number }>();
+
+  const flag: Reporter = (severity, rule, message, at) => {
+    const existing = groups.get(rule);
+    if (existing) {
+      existing.count++;
+    } else {
+      groups.set(rule, { severity, message, at, count: 1 });
+    }
+  };
+
+  const flush = () => {
+    Array.from(groups.entries()).forEach(([rule, group]) => {
+      const suffix = group.count > 1 ? ` (${group.count} ${countNoun(rule)})` : '';
+      report(group.severity, rule, group.message + suffix, group.at);
+    });
+    groups.clear();
+  };
+
+  return { flag, flush };
+}
+
+/**
+ * Validates RSS/Atom feed against W3C standards
+ * Checks well-formedness with a real XML parser, then the required elements
+ * of the RSS 2.0, RSS 1.0 (RDF) and Atom specifications on the resulting element tree
+ */
+export function validateFeedXML(xmlContent: string, parsed?: XmlDocument): ValidationResult {
+  const { report, done } = createDiagnosticCollector(xmlContent);
+
+  // Check if it's XML at all before reporting parser errors
+  const trimmed = xmlContent.replace(/^\uFEFF/, '').trimStart();
+  if (!trimmed.startsWith('<')) {
+    report('error', 'not-xml', 'Feed does not appear to be valid XML');
+    return done();
+  }
+
+  const document = parsed || parseXml(xmlContent);
+
+  // The parser resumes after each error, so one bad construct can repeat the same message
+  const errors = document.errors.filter(
+    (error, index) => index === 0 || error.message !== document.errors[index - 1].message
+  );
+  for (const error of errors.slice(0, MAX_WELL_FORMEDNESS_ERRORS)) {
+    report('error', 'well-formed', `XML is not well-formed: ${error.message}`, error);
+  }
+  if (errors.length > MAX_WELL_FORMEDNESS_ERRORS) {
+    const remaining = errors.length - MAX_WELL_FORMEDNESS_ERRORS;
+    report('error', 'well-formed', `${remaining} more well-formedness error${remaining > 1 ? 's' : ''} not shown`, errors[MAX_WELL_FORMEDNESS_ERRORS]);
+  }
+
+  // Structural checks on a broken tree only produce noise
+  const root = document.root;
+  if (!root || errors.length > 0) {
+    return done();
+  }
+
+  if (root.name === 'rss') {
+    validateRss(root, report);
+  } else if (root.local === 'RDF' && root.uri === RDF_NAMESPACE) {
+    validateRdf(root, report);
+  } else if (root.local === 'feed' && root.uri === ATOM_NAMESPACE) {
+    validateAtom(root, report);
+  } else {
+    report('error', 'unknown-format', 'Feed does not appear to be a valid RSS 2.0, RSS 1.0 (RDF) or Atom feed', root);
+  }
+
+  // Check for invalid attributes on elements (W3C validator checks)
+  // filesize is not a valid attribute on media:content per the Media RSS spec (fileSize is)
+  walkElements(root, (element) => {
+    if (element.name === 'media:content' && 'filesize' in element.attributes) {
+      report('error', 'media-content-filesize', 'Unexpected filesize attribute on media:content element', element);
+    }
+  });
+
+  return done();
+}
+
+/**
+ * RSS 2.0: <rss version> with a <channel> that has <title>, <link> and items
+ */
+function validateRss(rss: XmlElement, report: Reporter): void {
+  if (!rss.attributes.version) {
+    report('error', 'rss-version', 'RSS feed should declare version attribute (e.g., version="2.0")', rss);
+  }
+
+  const channel = childElement(rss, 'channel');
+  if (!channel) {
+    report('error', 'rss-channel', 'RSS feed missing required <channel> element', rss);
+    return;
+  }
+
+  // Only direct children count, so <image><title> is not mistaken for the channel title
+  const title = childElement(channel, 'title');
+  if (!title) {
+    report('error', 'rss-channel-title', 'RSS feed missing required <title> element in <channel>', channel);
+  } else if (title.text.trim() === '') {
+    report('error', 'rss-channel-title', 'RSS feed <title> element in <channel> is empty', title);
+  }
+
+  if (!childElement(channel, 'link')) {
+    report('error', 'rss-channel-link', 'RSS feed missing required <link> element in <channel>', channel);
+  }
+
+  if (!childElement(channel, 'description')) {
+    report('warning', 'rss-channel-description', 'RSS feed <channel> should contain a <description> element', channel);
+  }
+
+  const items = childElements(channel, 'item');
+  if (items.length === 0) {
+    report('error', 'rss-item-count', 'RSS feed should contain at least one <item> element', channel);
+  }
+
+  items.forEach((item, index) => {
+    if (!childElement(item, 'title') && !childElement(item, 'description')) {
+      report('error', 'rss-item-title-or-description', `RSS item #${index + 1} missing required <title> or <description> element`, item);
+    }
+  });
+}
+
+/**
+ * RSS 1.0: <rdf:RDF> with a <channel> and <item> siblings in the RSS 1.0 namespace.
+ * The channel lists its items in an <items><rdf:Seq> that should match the <item> elements.
+ */
+function validateRdf(rdf: XmlElement, report: Reporter): void {
+  const rssChild = (element: XmlElement, local: string) =>
+    element.children.filter((child) => child.local === local && child.uri === RSS1_NAMESPACE);
+
+  const channel = rssChild(rdf, 'channel')[0];
+  if (!channel) {
+    const unbound = rdf.children.find((child) => child.local === 'channel');
+    if (unbound) {
+      report('error', 'rdf-namespace', `RSS 1.0 <channel> must be in the ${RSS1_NAMESPACE} namespace`, unbound);
+    } else {
+      report('error', 'rdf-channel', 'RSS 1.0 feed missing required <channel> element', rdf);
+    }
+    return;
+  }
+
+  if (!channel.attributes['rdf:about']) {
+    report('error', 'rdf-channel-about', 'RSS 1.0 <channel> missing required rdf:about attribute', channel);
+  }
+
+  for (const required of ['title', 'link', 'description']) {
+    const element = rssChild(channel, required)[0];
+    if (!element) {
+      report('error', `rdf-channel-${required}`, `RSS 1.0 feed missing required <${required}> element in <channel>`, channel);
+    } else if (required === 'title' && element.text.trim() === '') {
+      report('error', 'rdf-channel-title', 'RSS 1.0 feed <title> element in <channel> is empty', element);
+    }
+  }
+
+  const sequenced = new Set<string>();
+  const itemsElement = rssChild(channel, 'items')[0];
+  const sequence = itemsElement?.children.find((child) => child.local === 'Seq' && child.uri === RDF_NAMESPACE);
+  if (!itemsElement || !sequence) {
+    report('error', 'rdf-channel-items', 'RSS 1.0 <channel> missing required <items><rdf:Seq> element', itemsElement || channel);
+  } else {
+    for (const li of sequence.children) {
+      const resource = li.attributes['rdf:resource'] || li.attributes['resource'];
+      if (resource) sequenced.add(resource);
+    }
+  }
+
+  const items = rssChild(rdf, 'item');
+  if (items.length === 0) {
+    report('error', 'rdf-item-count', 'RSS 1.0 feed should contain at least one <item> element', rdf);
+  }
+
+  items.forEach((item, index) => {
+    const about = item.attributes['rdf:about'];
+    if (!about) {
+      report('error', 'rdf-item-about', `RSS 1.0 item #${index + 1} missing required rdf:about attribute`, item);
+    } else if (sequence && !sequenced.has(about)) {
+      report('warning', 'rdf-item-sequence', `RSS 1.0 item #${index + 1} is not listed in the channel <items> sequence`, item);
+    }
+    for (const required of ['title', 'link']) {
+      if (rssChild(item, required).length === 0) {
+        report('error', `rdf-item-${required}`, `RSS 1.0 item #${index + 1} missing required <${required}> element`, item);
+      }
+    }
+  });
+}
+
+/**
+ * Atom (RFC 4287): <feed> requires <title>, <id> and <updated>
+ */
+function validateAtom(feed: XmlElement, report: Reporter): void {
+  const atomChild = (element: XmlElement, local: string) =>
+    element.children.find((child) => child.local === local && child.uri === ATOM_NAMESPACE) || null;
+
+  for (const required of ['title', 'id', 'updated']) {
+    if (!atomChild(feed, required)) {
+      report('error', `atom-feed-${required}`, `Atom feed missing required <${required}> element in <feed>`, feed);
+    }
+  }
+
+  if (!feed.children.some((child) => child.local === 'entry' && child.uri === ATOM_NAMESPACE)) {
+    report('error', 'atom-entry-count', 'Atom feed should contain at least one <entry> element', feed);
+  }
+}
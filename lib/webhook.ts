@@ -0,0 +1,48 @@
+import http from 'node:http';
+import https from 'node:https';
+import { checkUrl, createPolicyLookup, getNetworkPolicy, NetworkPolicy } from './network-policy';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const USER_AGENT = 'Mozilla/5.0 (compatible; RSS Feed Validator)';
+
+/**
+ * POSTs a JSON payload and resolves with the response status. Webhook URLs are user-supplied,
+ * so they go through the same network policy as feed requests; redirects are not followed.
+ */
+export function postJson(url: string, payload: unknown, policy: NetworkPolicy = getNetworkPolicy()): Promise<number> {
+  let target: URL;
+  try {
+    target = new URL(url);
+    checkUrl(target, policy);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  const transport = target.protocol === 'https:' ? https : http;
+  const body = JSON.stringify(payload);
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(
+      target,
+      {
+        method: 'POST',
+        agent: false,
+        lookup: createPolicyLookup(policy),
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+        },
+        timeout: WEBHOOK_TIMEOUT_MS,
+      },
+      (response) => {
+        // The body is not needed, but it must be drained for the socket to close
+        response.resume();
+        response.on('end', () => resolve(response.statusCode || 0));
+        response.on('error', reject);
+      }
+    );
+    request.on('timeout', () => request.destroy(new Error('Webhook timed out')));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
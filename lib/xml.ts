@@ -0,0 +1,143 @@
+import { SaxesParser } from 'saxes';
+
+/**
+ * Minimal element tree built from a namespace-aware SAX parse.
+ * Every element remembers where its start tag begins so diagnostics can point at it.
+ */
+export interface XmlElement {
+  name: string; // Qualified name as written, e.g. "media:content"
+  prefix: string;
+  local: string;
+  uri: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Direct text and CDATA content, not including descendants
+  line: number; // 1-based
+  column: number; // 1-based
+  parent: XmlElement | null;
+}
+
+export interface XmlParseError {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface XmlDocument {
+  root: XmlElement | null;
+  declaration: { version?: string; encoding?: string; standalone?: string } | null;
+  errors: XmlParseError[];
+}
+
+/**
+ * Parses an XML string into an element tree, collecting well-formedness errors
+ * instead of throwing so the caller can report all of them at once.
+ */
+export function parseXml(xml: string): XmlDocument {
+  const parser = new SaxesParser({ xmlns: true, position: true });
+  const errors: XmlParseError[] = [];
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let declaration: XmlDocument['declaration'] = null;
+  let tagLine = 1;
+  let tagColumn = 1;
+
+  parser.on('xmldecl', (decl) => {
+    declaration = {
+      version: decl.version,
+      encoding: decl.encoding,
+      standalone: decl.standalone,
+    };
+  });
+
+  parser.on('opentagstart', (tag) => {
+    // The parser has already consumed "<" and the tag name at this point
+    tagLine = parser.line;
+    tagColumn = Math.max(1, parser.column - tag.name.length - 1);
+  });
+
+  parser.on('opentag', (tag) => {
+    const attributes: Record<string, string> = {};
+    for (const [name, attr] of Object.entries(tag.attributes)) {
+      attributes[name] = typeof attr === 'string' ? attr : attr.value;
+    }
+
+    const element: XmlElement = {
+      name: tag.name,
+      prefix: tag.prefix || '',
+      local: tag.local || tag.name,
+      uri: tag.uri || '',
+      attributes,
+      children: [],
+      text: '',
+      line: tagLine,
+      column: tagColumn,
+      parent: stack.length > 0 ? stack[stack.length - 1] : null,
+    };
+
+    if (element.parent) {
+      element.parent.children.push(element);
+    } else if (!root) {
+      root = element;
+    }
+
+    if (!tag.isSelfClosing) {
+      stack.push(element);
+    }
+  });
+
+  parser.on('closetag', (tag) => {
+    if (stack.length > 0 && stack[stack.length - 1].name === tag.name) {
+      stack.pop();
+    }
+  });
+
+  const appendText = (text: string) => {
+    if (stack.length > 0) {
+      stack[stack.length - 1].text += text;
+    }
+  };
+  parser.on('text', appendText);
+  parser.on('cdata', appendText);
+
+  parser.on('error', (error) => {
+    errors.push({
+      // saxes prefixes messages with "line:column: "; we report the position separately
+      message: error.message.replace(/^\d+:\d+:\s*/, ''),
+      line: parser.line,
+      column: Math.max(1, parser.column),
+    });
+  });
+
+  try {
+    parser.write(xml).close();
+  } catch (error: any) {
+    errors.push({ message: error.message, line: parser.line, column: Math.max(1, parser.column) });
+  }
+
+  return { root, declaration, errors };
+}
+
+/**
+ * Returns the direct children of an element with the given qualified name.
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/**
+ * Returns the first direct child of an element with the given qualified name.
+ */
+export function childElement(element: XmlElement, name: string): XmlElement | null {
+  return childElements(element, name)[0] || null;
+}
+
+/**
+ * Depth-first walk over an element and all of its descendants.
+ */
+export function walkElements(element: XmlElement, visit: (element: XmlElement) => void): void {
+  visit(element);
+  for (const child of element.children) {
+    walkElements(child, visit);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Local webhook receiver for trying alert rules: prints every JSON body it is sent and answers 204.
+ * Usage: npm run webhook-receiver [-- <port>], then use http://127.0.0.1:<port>/ as the rule's webhook
+ * with FEED_ANALYZER_HOST_ALLOWLIST=127.0.0.1 set for the app.
+ */
+import http from 'node:http';
+
+const port = Number(process.argv[2] || process.env.PORT || 4000);
+
+const server = http.createServer((request, response) => {
+  if (request.method !== 'POST') {
+    response.writeHead(405, { Allow: 'POST' });
+    response.end();
+    return;
+  }
+
+  const chunks = [];
+  request.on('data', (chunk) => chunks.push(chunk));
+  request.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      console.log(`[${new Date().toISOString()}] ${request.url}: body is not JSON\n${body}`);
+      response.writeHead(400);
+      response.end();
+      return;
+    }
+    console.log(`[${new Date().toISOString()}] ${payload.event}: ${payload.message}`);
+    console.log(JSON.stringify(payload, null, 2));
+    response.writeHead(204);
+    response.end();
+  });
+});
+
+server.listen(port, '127.0.0.1', () => {
+  console.log(`Webhook receiver listening on http://127.0.0.1:${port}/`);
+});